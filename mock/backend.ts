@@ -1,10 +1,12 @@
 import { HttpResponse } from './response'
-import { fetchStack, restore, mockFetch } from './mock'
+import { fetchStack, ignoredQueryKeys, restore, mockFetch } from './mock'
+import { Recording } from './recorder'
 
 export class Backend {
 
   constructor() {
     fetchStack.clear()
+    ignoredQueryKeys.clear()
     mockFetch()
   }
 
@@ -24,6 +26,24 @@ export class Backend {
     return new HttpResponse(uri, 'delete')
   }
 
+  /**
+   * 以 MockRecorder 录制的内容作为响应。相同的请求按录制的顺序响应，最后一个响应会被重复使用；
+   * 没有匹配的请求时，报错中包含与最接近的已录制请求的差异。
+   */
+  replay(recording: Recording) {
+    recording.ignoredQuery.forEach(key => ignoredQueryKeys.add(key))
+    recording.entries.forEach(({ request, response }) => {
+      const httpResponse = new HttpResponse(request.url, request.method, request.body)
+      const responseInit = { status: response.status, headers: response.headers }
+      if (response.status >= 200 && response.status < 400) {
+        httpResponse.respond(response.body, responseInit)
+      } else {
+        httpResponse.error(response.body, responseInit)
+      }
+    })
+    return this
+  }
+
   restore(): void {
     restore()
   }
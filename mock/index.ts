@@ -1,3 +1,4 @@
 export * from './mock'
 export * from './backend'
+export * from './recorder'
 export * from './socket'
@@ -1,3 +1,5 @@
+import { diffWithNearest } from './nearest'
+
 declare const global: any
 
 export interface FetchResult {
@@ -10,6 +12,20 @@ export interface FetchResult {
 
 export const fetchStack: Map<string, FetchResult[]> = new Map<string, any>()
 
+// 重放录制的请求时，录制时被去掉的 query 参数不参与匹配
+export const ignoredQueryKeys = new Set<string>()
+
+export function removeQueryKeys(uri: string, keys: string[]): string {
+  const queryPos = uri.indexOf('?')
+  if (queryPos === -1 || !keys.length) {
+    return uri
+  }
+  const params = uri.substr(queryPos + 1)
+    .split('&')
+    .filter(param => param && keys.indexOf(param.split('=')[0]) === -1)
+  return params.length ? `${uri.substring(0, queryPos)}?${params.join('&')}` : uri.substring(0, queryPos)
+}
+
 export const buildQuery = (url: string, query: any) => {
   if (typeof query !== 'object' || !query) {
     return url
@@ -113,6 +129,11 @@ export function mockFetch() {
         }
       }
       uri = buildQuery(uri, options.body)
+      if (ignoredQueryKeys.size) {
+        const keys: string[] = []
+        ignoredQueryKeys.forEach(key => keys.push(key))
+        uri = removeQueryKeys(uri, keys)
+      }
       const fetchIndex = reParseQuery(uri) + method
       const results = fetchStack.get(fetchIndex)
       if (!results) {
@@ -121,11 +142,13 @@ export function mockFetch() {
         fetchStack.forEach((_, key) => {
           definedUri.push(key)
         })
+        const diff = diffWithNearest(fetchIndex, definedUri)
         const error = new TypeError(
             `nothing expect response from server,
             uri: ${uri}, method: ${options.method},
             body: ${JSON.stringify(options.body, null, 2)},
-            defined uri: ${JSON.stringify(definedUri, null, 2)}`
+            defined uri: ${JSON.stringify(definedUri, null, 2)}` +
+            (diff ? `\ndiff against the nearest defined request:\n${diff}` : '')
         )
         console.error(error)
         return Promise.reject(error)
@@ -0,0 +1,75 @@
+interface ParsedIndex {
+  method: string
+  path: string
+  query: { [key: string]: string }
+}
+
+// fetchStack 的键为 reParseQuery(uri) + method
+const parseIndex = (index: string): ParsedIndex => {
+  const match = /(get|put|post|delete)$/.exec(index)
+  const method = match ? match[1] : ''
+  const uri = match ? index.slice(0, -method.length) : index
+  const queryPos = uri.indexOf('?')
+  const query = {}
+  if (queryPos !== -1) {
+    uri.substr(queryPos + 1).split('&')
+      .filter(param => param)
+      .forEach(param => {
+        const [ key, value ] = param.split('=')
+        query[key] = value
+      })
+  }
+  return { method, path: queryPos === -1 ? uri : uri.substring(0, queryPos), query }
+}
+
+const similarity = (a: ParsedIndex, b: ParsedIndex) => {
+  const segmentsA = a.path.split('/')
+  const segmentsB = b.path.split('/')
+  let sameSegments = 0
+  while (sameSegments < segmentsA.length && segmentsA[sameSegments] === segmentsB[sameSegments]) {
+    sameSegments++
+  }
+  const sameQuery = Object.keys(a.query).filter(key => a.query[key] === b.query[key]).length
+  return (a.method === b.method ? 10000 : 0)
+    + (segmentsA.length === segmentsB.length ? 1000 : 0)
+    + sameSegments * 10
+    + sameQuery
+}
+
+/**
+ * 在已定义的请求中找到与 index 最接近的一个，返回两者的差异，
+ * 以 - 标记已定义（录制）的请求，+ 标记实际发出的请求。没有已定义的请求时返回 null。
+ */
+export function diffWithNearest(index: string, definedIndexes: string[]): string | null {
+  if (!definedIndexes.length) {
+    return null
+  }
+  const actual = parseIndex(index)
+  const nearest = definedIndexes
+    .map(parseIndex)
+    .reduce((prev, curr) => similarity(actual, curr) > similarity(actual, prev) ? curr : prev)
+
+  const lines: string[] = []
+  const compare = (label: string, expected: string | undefined, received: string | undefined) => {
+    if (expected === received) {
+      lines.push(`  ${label}: ${expected}`)
+      return
+    }
+    if (typeof expected !== 'undefined') {
+      lines.push(`- ${label}: ${expected}`)
+    }
+    if (typeof received !== 'undefined') {
+      lines.push(`+ ${label}: ${received}`)
+    }
+  }
+  compare('method', nearest.method, actual.method)
+  compare('path', nearest.path, actual.path)
+  const keys = Object.keys(nearest.query)
+  Object.keys(actual.query).forEach(key => {
+    if (keys.indexOf(key) === -1) {
+      keys.push(key)
+    }
+  })
+  keys.sort().forEach(key => compare(`query.${key}`, nearest.query[key], actual.query[key]))
+  return lines.join('\n')
+}
@@ -0,0 +1,196 @@
+import { reParseQuery, removeQueryKeys } from './mock'
+
+declare const global: any
+declare const require: any
+
+export interface RecordedEntry {
+  request: {
+    method: string
+    /**
+     * 去掉了 _ 参数，query 按 key 排序。
+     */
+    url: string
+    body?: any
+  }
+  response: {
+    status: number
+    headers: { [header: string]: string }
+    body: string
+  }
+}
+
+export interface Recording {
+  version: 1
+  /**
+   * 录制时被去掉的 query 参数，重放时不参与匹配。
+   */
+  ignoredQuery: string[]
+  entries: RecordedEntry[]
+}
+
+export interface RedactOptions {
+  /**
+   * 需要隐去的响应 headers，不区分大小写。默认为 ['set-cookie']。
+   * 请求的 headers（包括 Authorization）不会被录制。
+   */
+  headers?: string[]
+  /**
+   * 需要去掉的 query 参数。默认为 ['access_token', 'token', 'signature', 'Signature']。
+   */
+  query?: string[]
+  /**
+   * 需要隐去的响应体（JSON）中的字段，任意层级。请求体用于重放时的匹配，不做处理。
+   * 默认为 ['strikerAuth', 'snapperToken', 'accessToken', 'access_token', 'refreshToken', 'refresh_token']。
+   */
+  fields?: string[]
+  /**
+   * 替换被隐去内容的值。默认为 '<redacted>'。
+   */
+  replacement?: string
+}
+
+export interface RecorderOptions {
+  redact?: RedactOptions
+  /**
+   * 返回 false 的请求不被录制。
+   */
+  filter?: (url: string, method: string) => boolean
+}
+
+const context = typeof window !== 'undefined' ? window : global
+
+const defaultRedactOptions = (): Required<RedactOptions> => ({
+  headers: ['set-cookie'],
+  query: ['access_token', 'token', 'signature', 'Signature'],
+  fields: ['strikerAuth', 'snapperToken', 'accessToken', 'access_token', 'refreshToken', 'refresh_token'],
+  replacement: '<redacted>'
+})
+
+// 录制的是解码后的响应体，与传输相关的 headers 不再适用
+const transportHeaders = ['content-encoding', 'content-length', 'transfer-encoding', 'connection']
+
+const redactFields = (value: any, fields: string[], replacement: string): any => {
+  if (Array.isArray(value)) {
+    return value.map(item => redactFields(item, fields, replacement))
+  }
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+  const result = {}
+  Object.keys(value).forEach(key => {
+    result[key] = fields.indexOf(key) === -1 ? redactFields(value[key], fields, replacement) : replacement
+  })
+  return result
+}
+
+/**
+ * 录制经过 fetch 的真实请求，用于生成可由 Backend.replay 重放的 fixture。
+ * SDKFetch 在测试环境中通过 fetch 发出请求，因此 start 之后 SDKFetch 的请求都会被录制：
+ *
+ * const recorder = new MockRecorder().start()
+ * // ...发出请求
+ * recorder.stop()
+ * recorder.save('test/fixtures/tasks.recording.json')
+ */
+export class MockRecorder {
+
+  private entries: RecordedEntry[] = []
+  private originalFetch: any = null
+  private redact: Required<RedactOptions>
+
+  constructor(private options: RecorderOptions = {}) {
+    this.redact = { ...defaultRedactOptions(), ...options.redact }
+  }
+
+  start() {
+    if (this.originalFetch) {
+      return this
+    }
+    const originalFetch = this.originalFetch = context['fetch']
+    context['fetch'] = (uri: string, init: any = {}) => {
+      const method = (init.method || 'get').toLowerCase()
+      // 测试环境中 SDKFetch 传给 fetch 的 body 没有序列化
+      const body = init.body
+      const requestInit = body && typeof body === 'object' && !(typeof Blob !== 'undefined' && body instanceof Blob)
+        ? { ...init, body: JSON.stringify(body) }
+        : init
+      return originalFetch(uri, requestInit)
+        .then((response: Response) => {
+          if (this.options.filter && !this.options.filter(uri, method)) {
+            return response
+          }
+          return response.clone().text()
+            .then(text => {
+              this.record(uri, method, body, response, text)
+              return response
+            })
+        })
+    }
+    return this
+  }
+
+  /**
+   * 停止录制，恢复 fetch，返回录制的内容。
+   */
+  stop(): Recording {
+    if (this.originalFetch) {
+      context['fetch'] = this.originalFetch
+      this.originalFetch = null
+    }
+    return this.getRecording()
+  }
+
+  getRecording(): Recording {
+    return { version: 1, ignoredQuery: this.redact.query.slice(), entries: this.entries.slice() }
+  }
+
+  clear() {
+    this.entries = []
+    return this
+  }
+
+  /**
+   * 将录制的内容写入 JSON 文件，仅在 Node.js 中可用。
+   */
+  save(path: string) {
+    const fs = require('fs')
+    fs.writeFileSync(path, JSON.stringify(this.getRecording(), null, 2) + '\n')
+    return this
+  }
+
+  private record(uri: string, method: string, body: any, response: Response, text: string) {
+    const { headers: redactHeaders, query, fields, replacement } = this.redact
+    const lowerCaseHeaders = redactHeaders.map(header => header.toLowerCase())
+    const headers = {}
+    response.headers.forEach((value: string, key: string) => {
+      if (transportHeaders.indexOf(key.toLowerCase()) !== -1) {
+        return
+      }
+      headers[key] = lowerCaseHeaders.indexOf(key.toLowerCase()) === -1 ? value : replacement
+    })
+
+    let responseBody = text
+    try {
+      responseBody = JSON.stringify(redactFields(JSON.parse(text), fields, replacement))
+    } catch (e) {
+      // 非 JSON 的响应体原样录制
+    }
+
+    this.entries.push({
+      request: {
+        method,
+        url: reParseQuery(removeQueryKeys(uri, ['_', ...query])),
+        ...(typeof body === 'undefined' ? {} : { body })
+      },
+      response: { status: response.status, headers, body: responseBody }
+    })
+  }
+}
+
+/**
+ * 读取 MockRecorder.save 写入的文件，仅在 Node.js 中可用。
+ */
+export function loadRecording(path: string): Recording {
+  const fs = require('fs')
+  return JSON.parse(fs.readFileSync(path, 'utf8'))
+}
@@ -0,0 +1,144 @@
+/**
+ * 响应的验证信息。notModified 为 true 表示响应为 304，响应体为之前缓存的响应的拷贝。
+ */
+export interface ResponseValidator {
+  url: string
+  etag?: string
+  lastModified?: string
+  notModified: boolean
+}
+
+/**
+ * 保存在响应之外（如持久化的请求缓存中）的验证信息，见 ConditionalCache.restore。
+ */
+export type StoredValidator = Pick<ResponseValidator, 'url' | 'etag' | 'lastModified'>
+
+interface CachedResponse {
+  etag?: string
+  lastModified?: string
+  headers: any
+  /**
+   * 由 restore 恢复的验证信息没有响应体。
+   */
+  body?: any
+}
+
+const responseValidators = new WeakMap<object, ResponseValidator>()
+
+/**
+ * 获取 SDKFetch 开启条件请求（setConditionalRequests）后返回的响应体的验证信息。
+ */
+export const getResponseValidator = (body: any): ResponseValidator | undefined => {
+  return body !== null && typeof body === 'object' ? responseValidators.get(body) : undefined
+}
+
+const setResponseValidator = (body: any, validator: ResponseValidator) => {
+  if (body !== null && typeof body === 'object') {
+    responseValidators.set(body, validator)
+  }
+}
+
+// 每次 304 返回新的（浅拷贝的）响应体，不影响之前的响应体上的验证信息
+const copyBody = (body: any) => {
+  if (Array.isArray(body)) {
+    return body.slice()
+  }
+  return body !== null && typeof body === 'object' ? { ...body } : body
+}
+
+// fetch 获得的 headers 键为小写，XMLHttpRequest 则保留服务端返回的大小写
+const getHeader = (headers: any, name: string): string | undefined => {
+  if (!headers) {
+    return undefined
+  }
+  const lowerCaseName = name.toLowerCase()
+  const key = Object.keys(headers).filter(k => k.toLowerCase() === lowerCaseName)[0]
+  return key ? headers[key] : undefined
+}
+
+/**
+ * 记录 GET 响应的 ETag/Last-Modified 及响应体，用于发出条件请求（If-None-Match/If-Modified-Since），
+ * 并在响应为 304 时返回缓存的响应体。
+ */
+export class ConditionalCache {
+
+  private responses = new Map<string, CachedResponse>()
+
+  /**
+   * maxResponses 为记录的响应数上限，超出时丢弃最久未使用的。
+   */
+  constructor(private maxResponses = 500) {}
+
+  /**
+   * 对 url 发出请求时需要附加的条件请求 headers。
+   */
+  getRequestHeaders(url: string): { [header: string]: string } {
+    const cached = this.responses.get(url)
+    const headers = {}
+    if (cached && cached.etag) {
+      headers['If-None-Match'] = cached.etag
+    }
+    if (cached && cached.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified
+    }
+    return headers
+  }
+
+  /**
+   * 记录 url 的响应，没有 ETag 及 Last-Modified 的响应不会被记录。
+   */
+  update(url: string, headers: any, body: any) {
+    const etag = getHeader(headers, 'ETag')
+    const lastModified = getHeader(headers, 'Last-Modified')
+    if (!etag && !lastModified) {
+      this.responses.delete(url)
+      return
+    }
+    this.responses.delete(url)
+    this.set(url, { etag, lastModified, headers, body })
+    setResponseValidator(body, { url, etag, lastModified, notModified: false })
+  }
+
+  /**
+   * 恢复上一次会话保存的验证信息，已经记录了响应的 url 不受影响。
+   * 恢复的验证信息没有响应体：304 时返回空对象作为响应体，只能用来判断之前的数据仍然有效，
+   * 并且只使用一次，之后的请求不再附带条件请求 headers，以获取完整的响应。
+   */
+  restore(validators: StoredValidator[]) {
+    validators.forEach(({ url, etag, lastModified }) => {
+      if ((etag || lastModified) && !this.responses.has(url)) {
+        this.set(url, { etag, lastModified, headers: {} })
+      }
+    })
+  }
+
+  /**
+   * 获取 url 响应为 304 时应返回的响应。
+   */
+  getNotModified(url: string): { headers: any, body: any } | undefined {
+    const cached = this.responses.get(url)
+    if (!cached) {
+      return undefined
+    }
+    this.responses.delete(url)
+    const { etag, lastModified, headers } = cached
+    const restored = typeof cached.body === 'undefined'
+    if (!restored) {
+      this.responses.set(url, cached)
+    }
+    const body = restored ? {} : copyBody(cached.body)
+    setResponseValidator(body, { url, etag, lastModified, notModified: true })
+    return { headers, body }
+  }
+
+  clear() {
+    this.responses.clear()
+  }
+
+  private set(url: string, response: CachedResponse) {
+    this.responses.set(url, response)
+    if (this.responses.size > this.maxResponses) {
+      this.responses.delete(this.responses.keys().next().value)
+    }
+  }
+}
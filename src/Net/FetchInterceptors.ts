@@ -0,0 +1,123 @@
+import 'rxjs/add/observable/throw'
+import 'rxjs/add/operator/catch'
+import 'rxjs/add/operator/map'
+import { Observable } from 'rxjs/Observable'
+import { AllowedHttpMethod, HttpErrorMessage } from './Http'
+import { forEach } from '../utils'
+
+export interface FetchRequest {
+  method: AllowedHttpMethod
+  /**
+   * 完整的请求地址，包含 query，但不包含 SDKFetch 为 get 请求附加的时间戳。
+   */
+  url: string
+  headers: { [header: string]: any }
+  body?: any
+}
+
+export interface FetchInterceptor {
+  /**
+   * 请求发出前调用。返回新的 FetchRequest 以替换请求的 url、headers、body；
+   * 返回 Observable 则跳过后续拦截器，不发出实际请求，直接以该 Observable 作为响应。
+   * 注：get 请求根据拦截后的 url 去重。
+   */
+  onRequest?: (request: Readonly<FetchRequest>) => FetchRequest | Observable<any> | void
+  /**
+   * 请求成功后调用。返回值（undefined 除外）将替换响应结果交给后续拦截器。
+   */
+  onResponse?: (response: any, request: Readonly<FetchRequest>) => any
+  /**
+   * 请求失败（包括重试后仍失败）后调用。返回 HttpErrorMessage 则替换错误交给
+   * 后续拦截器；返回 Observable 则跳过后续拦截器，以该 Observable 替代错误（恢复）。
+   * 注：HttpError$ 及 SDKFetch 的 httpError$ 得到的始终是原始错误。
+   */
+  onError?: (error: HttpErrorMessage, request: Readonly<FetchRequest>) => HttpErrorMessage | Observable<any> | void
+}
+
+export type FetchInterceptorRemoval = () => void
+
+/**
+ * SDKFetch 请求拦截器的序列，按添加的顺序执行。
+ */
+export class FetchInterceptors {
+
+  private interceptors: FetchInterceptor[] = []
+
+  /**
+   * 往当前拦截器序列的尾端添加一个拦截器，返回函数用于移除该拦截器。
+   */
+  append(interceptor: FetchInterceptor): FetchInterceptorRemoval {
+    this.interceptors.push(interceptor)
+    return () => {
+      const index = this.interceptors.indexOf(interceptor)
+      if (index !== -1) {
+        this.interceptors.splice(index, 1)
+      }
+    }
+  }
+
+  /**
+   * 依次执行 onRequest，返回最终的请求内容，或用于短路的 Observable。
+   */
+  applyRequest(request: FetchRequest): FetchRequest | Observable<any> {
+    let result: FetchRequest | Observable<any> = request
+
+    forEach(this.interceptors, (interceptor): void | false => {
+      if (!interceptor.onRequest) {
+        return
+      }
+      const ret = interceptor.onRequest(result as FetchRequest)
+      if (ret) {
+        result = ret
+      }
+      if (result instanceof Observable) {
+        return false
+      }
+    })
+
+    return result
+  }
+
+  /**
+   * 在 response$ 上依次执行 onResponse 与 onError。
+   */
+  applyResponse<T>(response$: Observable<T>, request: FetchRequest): Observable<T> {
+    if (!this.interceptors.length) {
+      return response$
+    }
+
+    const interceptors = this.interceptors.slice()
+
+    return response$
+      .map(response => {
+        forEach(interceptors, interceptor => {
+          if (interceptor.onResponse) {
+            const ret = interceptor.onResponse(response, request)
+            if (typeof ret !== 'undefined') {
+              response = ret
+            }
+          }
+        })
+        return response
+      })
+      .catch((error: HttpErrorMessage) => {
+        let recovery: Observable<T> | null = null
+
+        forEach(interceptors, (interceptor): void | false => {
+          if (!interceptor.onError) {
+            return
+          }
+          const ret = interceptor.onError(error, request)
+          if (ret instanceof Observable) {
+            recovery = ret
+            return false
+          }
+          if (ret) {
+            error = ret
+          }
+        })
+
+        return recovery || Observable.throw(error)
+      })
+  }
+}
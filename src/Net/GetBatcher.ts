@@ -0,0 +1,162 @@
+import { Observable } from 'rxjs/Observable'
+import { Observer } from 'rxjs/Observer'
+import { Subscription } from 'rxjs/Subscription'
+
+/**
+ * 批量获取接口的描述，如 { path: 'tasks' } 对应 GET tasks?_ids=a,b,c。
+ * 接口须返回由这些 id 对应实体组成的数组（顺序不限）。
+ */
+export interface BatchEndpoint {
+  path: string
+  /**
+   * 承载 id 列表的 query 字段，默认为 '_ids'。
+   */
+  idsField?: string
+  /**
+   * 单次批量请求最多包含的 id 数，超出的部分拆分为多次批量请求。默认为 100。
+   */
+  maxBatchSize?: number
+}
+
+export type BatchFetch = (endpoint: BatchEndpoint, ids: string[], query: any) => Observable<any[]>
+export type SingleFetch = (type: string, id: string, query: any) => Observable<any>
+
+interface BatchEntry {
+  id: string
+  observers: Observer<any>[]
+  /**
+   * 请求发出后，最后一个订阅者取消订阅时调用，用于中止进行中的请求。
+   */
+  onEmpty?: () => void
+}
+
+interface PendingBatch {
+  endpoint: BatchEndpoint
+  query: any
+  entries: Map<string, BatchEntry>
+}
+
+/**
+ * 收集同一 tick 内对同一类实体的单个获取，合并为一次批量请求，再将结果
+ * 分发给各个调用者。批量结果中缺失的 id 退回为单个请求。
+ */
+export class GetBatcher {
+
+  private pending = new Map<string, PendingBatch>()
+
+  constructor(
+    private fetchBatch: BatchFetch,
+    private fetchOne: SingleFetch
+  ) {}
+
+  /**
+   * batchKey 相同的调用合并为一次批量请求，调用方需保证它们的 endpoint 与 query 一致。
+   */
+  load<T>(batchKey: string, endpoint: BatchEndpoint, type: string, id: string, query?: any): Observable<T> {
+    return Observable.create((observer: Observer<T>) => {
+      let batch = this.pending.get(batchKey)
+      if (!batch) {
+        batch = { endpoint, query, entries: new Map() }
+        this.pending.set(batchKey, batch)
+        Promise.resolve().then(() => this.flush(batchKey, type))
+      }
+
+      let entry = batch.entries.get(id)
+      if (!entry) {
+        entry = { id, observers: [] }
+        batch.entries.set(id, entry)
+      }
+      const target = entry
+      const observers = entry.observers
+      observers.push(observer)
+
+      return () => {
+        const index = observers.indexOf(observer)
+        if (index !== -1) {
+          observers.splice(index, 1)
+        }
+        if (!observers.length && target.onEmpty) {
+          target.onEmpty()
+        }
+      }
+    })
+  }
+
+  private flush(batchKey: string, type: string) {
+    const batch = this.pending.get(batchKey)!
+    this.pending.delete(batchKey)
+
+    // 发出请求前已全部取消订阅的 id 不再获取
+    const entries: BatchEntry[] = []
+    batch.entries.forEach(entry => {
+      if (entry.observers.length) {
+        entries.push(entry)
+      }
+    })
+
+    const maxBatchSize = batch.endpoint.maxBatchSize || 100
+    for (let i = 0; i < entries.length; i += maxBatchSize) {
+      const chunk = entries.slice(i, i + maxBatchSize)
+      if (chunk.length === 1) {
+        this.fallback(chunk[0], type, batch.query)
+        continue
+      }
+      this.batch(chunk, type, batch.endpoint, batch.query)
+    }
+  }
+
+  /**
+   * chunk 中所有 id 都没有订阅者时中止批量请求。
+   */
+  private batch(chunk: BatchEntry[], type: string, endpoint: BatchEndpoint, query: any) {
+    let subscription: Subscription | null = null
+    const abortIfUnused = () => {
+      if (subscription && chunk.every(entry => !entry.observers.length)) {
+        subscription.unsubscribe()
+      }
+    }
+    chunk.forEach(entry => entry.onEmpty = abortIfUnused)
+
+    subscription = this.fetchBatch(endpoint, chunk.map(entry => entry.id), query)
+      .subscribe(
+        results => {
+          if (!Array.isArray(results)) {
+            chunk.forEach(entry => this.fallback(entry, type, query))
+            return
+          }
+          const resultById = new Map<string, any>()
+          results.forEach(result => {
+            if (result && result._id) {
+              resultById.set(result._id, result)
+            }
+          })
+          chunk.forEach(entry => {
+            if (resultById.has(entry.id)) {
+              forwardNext(entry.observers, resultById.get(entry.id))
+            } else {
+              this.fallback(entry, type, query)
+            }
+          })
+        },
+        error => chunk.forEach(entry => entry.observers.slice().forEach(observer => observer.error(error)))
+      )
+  }
+
+  private fallback(entry: BatchEntry, type: string, query: any) {
+    if (!entry.observers.length) {
+      return
+    }
+    const subscription = this.fetchOne(type, entry.id, query).subscribe(
+      result => forwardNext(entry.observers, result),
+      error => entry.observers.slice().forEach(observer => observer.error(error))
+    )
+    entry.onEmpty = () => subscription.unsubscribe()
+  }
+}
+
+const forwardNext = (observers: Observer<any>[], value: any) => {
+  observers.slice().forEach(observer => {
+    observer.next(value)
+    observer.complete()
+  })
+}
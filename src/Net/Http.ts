@@ -1,20 +1,40 @@
+import 'rxjs/add/observable/defer'
 import 'rxjs/add/observable/dom/ajax'
 import 'rxjs/add/observable/empty'
+import 'rxjs/add/observable/of'
 import 'rxjs/add/operator/catch'
+import 'rxjs/add/operator/concatMap'
+import 'rxjs/add/operator/do'
 import 'rxjs/add/operator/map'
-import { AjaxError } from 'rxjs/observable/dom/AjaxObservable'
+import 'rxjs/add/operator/timeoutWith'
+import { AjaxError, AjaxTimeoutError } from 'rxjs/observable/dom/AjaxObservable'
 import { Observable } from 'rxjs/Observable'
 import { Observer } from 'rxjs/Observer'
 import { Subject } from 'rxjs/Subject'
 import { parseHeaders, headers2Object } from '../utils/index'
 import { testable } from '../testable'
+import { RequestMetricReporter, byteLength } from './Metrics'
+import { RetryOptions, getErrorStatus, retryOnFailure } from './Retry'
+import { SDKError, NetworkError, TimeoutError, createSDKError, parseErrorBody } from './SDKError'
+import { Transport, toHeaders } from './Transport'
 
 export type AllowedHttpMethod = 'get' | 'post' | 'put' | 'delete'
 
+/**
+ * response: 服务端返回了错误的响应；
+ * network: 请求未能获得响应，如断网、跨域失败等；
+ * timeout: 请求超过 timeout 设置的时间仍未完成。
+ */
+export type HttpErrorKind = 'response' | 'network' | 'timeout'
+
 export interface HttpErrorMessage {
   method: AllowedHttpMethod
   url: string
-  error: Response
+  /**
+   * 带有解析后的响应体、状态码等信息的错误，具体类型见 SDKError 的各个子类。
+   */
+  error: SDKError
+  kind: HttpErrorKind
   body?: any
 }
 
@@ -28,95 +48,318 @@ type MethodParams = {
   body?: any,
   _opts: any,
   errorAdapter$: Subject<HttpErrorMessage>,
-  includeHeaders: boolean
+  includeHeaders: boolean,
+  retry?: RetryOptions | false,
+  timeout?: number,
+  refreshToken?: () => Observable<string>,
+  transport?: Transport,
+  metrics?: HttpMetricsContext
+}
+
+/**
+ * 用于记录请求指标，path 为请求的路径模板。
+ */
+export interface HttpMetricsContext {
+  path: string
+  report: RequestMetricReporter
+}
+
+// 一次请求（含重试）中最后一次尝试的响应状态码、响应体大小，以及尝试的次数
+type ResponseStats = {
+  status: number
+  bytes: number
+  attempts: number
 }
 
 export const HttpError$ = new Subject<HttpErrorMessage>() as any as Observable<HttpErrorMessage>
 
-export const createMethod = (method: AllowedHttpMethod) => (params: MethodParams): Observable<any> => {
-  const { url, body, _opts, errorAdapter$, includeHeaders } = params
-
-  /* istanbul ignore if */
-  if (testable.UseXMLHTTPRequest && typeof window !== 'undefined') {
-    return Observable.ajax({
-      url, body, method,
-      headers: _opts.headers,
-      withCredentials: _opts.credentials === 'include',
-      responseType: _opts.responseType || 'json',
-      crossDomain: typeof _opts.crossDomain !== 'undefined' ? !!_opts.crossDomain : true
-    })
-      .map(value => {
-        const respBody = value.response
-        if (!includeHeaders) {
-          return respBody
-        }
-        let respHeaders: any
-        try {
-          respHeaders = parseHeaders(value.xhr.getAllResponseHeaders())
-        } catch (e) {
-          respHeaders = null
-        }
-        return { headers: respHeaders, body: respBody }
-      })
-      .catch((e: AjaxError) => {
-        const headers = e.xhr.getAllResponseHeaders()
-        const sdkError: HttpErrorMessage = {
-          error: new Response(new Blob([JSON.stringify(e.xhr.response)]), {
-            status: e.xhr.status,
-            statusText: e.xhr.statusText,
-            headers: headers.length ? new Headers(parseHeaders(headers)) : new Headers()
-          }),
-          method, url, body
-        }
+export const createHttpErrorMessage = (error: SDKError): HttpErrorMessage => ({
+  error,
+  kind: error instanceof TimeoutError
+    ? 'timeout'
+    : error instanceof NetworkError ? 'network' : 'response',
+  method: error.request.method,
+  url: error.request.url,
+  body: error.request.body
+})
 
-        setTimeout(() => {
-          errorAdapter$.next(sdkError)
-        }, 10)
-        return Observable.throw(sdkError)
-      })
-  } else { // 测试用分支
-    return Observable.create((observer: Observer<any>) => {
-      const _options = {
-        ... _opts,
-        method: method
+// 普通对象及数组序列化为 JSON，Blob、Buffer 等二进制数据原样交给 transport
+const serializeBody = (body: any) => {
+  if (body === null || typeof body !== 'object') {
+    return typeof body === 'undefined' || typeof body === 'string' ? body : JSON.stringify(body)
+  }
+  const proto = Object.getPrototypeOf(body)
+  return Array.isArray(body) || proto === Object.prototype || proto === null ? JSON.stringify(body) : body
+}
+
+const bodySize = (body: string | Blob | Uint8Array) => {
+  if (typeof body === 'string') {
+    return byteLength(body)
+  }
+  return body instanceof Uint8Array ? body.byteLength : body.size
+}
+
+const sendWithTransport = (
+  transport: Transport,
+  method: AllowedHttpMethod,
+  url: string,
+  body: any,
+  opts: any,
+  includeHeaders: boolean,
+  stats: ResponseStats,
+  timeout?: number
+): Observable<any> => {
+  const request = { method, url, body }
+  // responseType 为 binary 时（如下载文件），响应体不做解析
+  const binary = opts.responseType === 'binary'
+  const response$ = transport({
+    method, url,
+    headers: opts.headers,
+    credentials: opts.credentials,
+    body: serializeBody(body),
+    ...(binary ? { responseType: 'binary' as 'binary' } : {})
+  })
+    .catch(e => Observable.throw(createHttpErrorMessage(new NetworkError({ request, cause: e }))))
+    .concatMap(response => {
+      const { status, statusText, headers } = response
+      stats.status = status
+      stats.bytes = bodySize(response.body)
+      if (status < 200 || status >= 400 || status === 304) {
+        return Observable.throw(createHttpErrorMessage(createSDKError({
+          request, status, statusText,
+          headers: toHeaders(headers),
+          body: typeof response.body === 'string' ? parseErrorBody(response.body) : null
+        })))
+      }
+      if (binary) {
+        return Observable.of(!includeHeaders ? response.body : { headers, body: response.body })
       }
-      if (body) { // body 内容没有 stringify，以便于测试代码中（如：mockFetch）的数据处理
-        _options.body = body
+      let result: any
+      try {
+        const respBody = JSON.parse(response.body as string)
+        result = !includeHeaders ? respBody : { headers, body: respBody }
+      } catch (e) {
+        result = response.body
       }
-      let headers: Headers
-      fetch(url, _options)
-        .then((response: Response): Promise<string> => {
-          if (response.status >= 200 && response.status < 400) {
-            headers = response.headers
-            return response.text()
-          } else {
-            throw response
+      return Observable.of(result)
+    })
+
+  return timeout && timeout > 0
+    ? response$.timeoutWith(timeout, Observable.throw(createHttpErrorMessage(new TimeoutError({ request }))))
+    : response$
+}
+
+// 请求（含重试）完成或失败时记录一次指标
+const withMetrics = (
+  request$: Observable<any>,
+  method: AllowedHttpMethod,
+  url: string,
+  opts: any,
+  stats: ResponseStats,
+  metrics: HttpMetricsContext
+): Observable<any> => Observable.defer(() => {
+  const startedAt = Date.now()
+  stats.attempts = 0
+  const report = (error?: HttpErrorMessage) => {
+    const status = error ? getErrorStatus(error) : stats.status
+    const traceparent = opts.headers && opts.headers.traceparent
+    metrics.report({
+      method, url,
+      path: metrics.path,
+      status,
+      duration: Date.now() - startedAt,
+      bytes: stats.bytes,
+      retries: Math.max(stats.attempts - 1, 0),
+      ...(error && status !== 304 ? { error: error.kind } : {}),
+      ...(traceparent ? { traceparent } : {})
+    })
+  }
+  return request$.do({
+    complete: () => report(),
+    error: (e: HttpErrorMessage) => report(e)
+  })
+})
+
+export const createMethod = (method: AllowedHttpMethod) => (params: MethodParams): Observable<any> => {
+  const { url, body, _opts, errorAdapter$, includeHeaders, retry, timeout, refreshToken, transport, metrics } = params
+  const stats: ResponseStats = { status: 0, bytes: 0, attempts: 0 }
+
+  const send = (opts: any) => Observable.defer(() => {
+    stats.attempts++
+    stats.status = 0
+    stats.bytes = 0
+    return sendOnce(opts)
+  })
+
+  const sendOnce = (opts: any): Observable<any> => {
+    if (transport) {
+      return sendWithTransport(transport, method, url, body, opts, includeHeaders, stats, timeout)
+    }
+    /* istanbul ignore if */
+    if (testable.UseXMLHTTPRequest && typeof window !== 'undefined') {
+      return Observable.ajax({
+        url, body, method,
+        headers: opts.headers,
+        withCredentials: opts.credentials === 'include',
+        responseType: opts.responseType || 'json',
+        crossDomain: typeof opts.crossDomain !== 'undefined' ? !!opts.crossDomain : true,
+        timeout: timeout || 0
+      })
+        .map(value => {
+          stats.status = value.status
+          stats.bytes = Number(value.xhr.getResponseHeader('Content-Length')) || 0
+          const respBody = value.response
+          if (!includeHeaders) {
+            return respBody
           }
-        })
-        .then(respText => {
-          let result: any
+          let respHeaders: any
           try {
-            const respBody = JSON.parse(respText)
-            result = !includeHeaders ? respBody : { headers: headers2Object(headers), body: respBody }
+            respHeaders = parseHeaders(value.xhr.getAllResponseHeaders())
           } catch (e) {
-            result = respText
+            respHeaders = null
           }
-          observer.next(result)
-          observer.complete()
+          return { headers: respHeaders, body: respBody }
         })
-        .catch((e: Response) => {
-          const sdkError: HttpErrorMessage = {
-            error: e,
-            method, url, body
+        .catch((e: AjaxError) => {
+          if (e instanceof AjaxTimeoutError) {
+            return Observable.throw(createHttpErrorMessage(
+              new TimeoutError({ request: { method, url, body }, cause: e })
+            ))
           }
+          stats.status = e.xhr.status
+          const headers = e.xhr.getAllResponseHeaders()
+          const response = e.xhr.response
+          const sdkError = createSDKError({
+            request: { method, url, body },
+            status: e.xhr.status,
+            statusText: e.xhr.statusText,
+            headers: headers.length ? new Headers(parseHeaders(headers)) : new Headers(),
+            body: typeof response === 'string' ? parseErrorBody(response) : response,
+            cause: e
+          })
+          return Observable.throw(createHttpErrorMessage(sdkError))
+        })
+    } else { // 测试用分支
+      return Observable.create((observer: Observer<any>) => {
+        const _options = {
+          ... opts,
+          method: method
+        }
+        if (body) { // body 内容没有 stringify，以便于测试代码中（如：mockFetch）的数据处理
+          _options.body = body
+        }
+        const controller = typeof AbortController !== 'undefined' ? new AbortController() : null
+        if (controller) {
+          // signal 设置为不可枚举，fetch 能读取到它，但它不会出现在对 fetch 参数的拷贝和比较中
+          Object.defineProperty(_options, 'signal', { value: controller.signal })
+        }
+        let finished = false
+        let timer: any
+        if (timeout && timeout > 0) {
+          timer = setTimeout(() => {
+            finished = true
+            if (controller) {
+              controller.abort()
+            }
+            observer.error(createHttpErrorMessage(
+              new TimeoutError({ request: { method, url, body } })
+            ))
+          }, timeout)
+        }
+        let headers: Headers
+        fetch(url, _options)
+          .then((response: Response): Promise<string> => {
+            stats.status = response.status
+            // 304 没有响应体，与 XMLHttpRequest 一致地作为错误交由调用方（如条件请求）处理
+            if (response.status >= 200 && response.status < 400 && response.status !== 304) {
+              headers = response.headers
+              return response.text()
+            } else {
+              throw response
+            }
+          })
+          .then(respText => {
+            if (finished) {
+              return
+            }
+            stats.bytes = byteLength(respText)
+            let result: any
+            try {
+              const respBody = JSON.parse(respText)
+              result = !includeHeaders ? respBody : { headers: headers2Object(headers), body: respBody }
+            } catch (e) {
+              result = respText
+            }
+            finished = true
+            observer.next(result)
+            observer.complete()
+          })
+          .catch((e: Response) => {
+            if (finished) {
+              return
+            }
+            finished = true
+            const request = { method, url, body }
+            if (!e || typeof e.status !== 'number') {
+              observer.error(createHttpErrorMessage(new NetworkError({ request, cause: e })))
+              return
+            }
+            const errorInit = {
+              request,
+              status: e.status,
+              statusText: e.statusText,
+              headers: e.headers
+            }
+            e.text()
+              .then(parseErrorBody, () => null)
+              .then(errorBody => {
+                observer.error(createHttpErrorMessage(createSDKError({ ...errorInit, body: errorBody })))
+              })
+          })
 
-          setTimeout(() => {
-            errorAdapter$.next(sdkError)
-          }, 10)
-          observer.error(sdkError)
+        return () => {
+          clearTimeout(timer)
+          // 最后一个订阅者取消订阅时，中止仍未完成的请求
+          if (!finished && controller) {
+            controller.abort()
+          }
+        }
+      })
+    }
+  }
+
+  let request$ = retryOnFailure(send(_opts), method, retry)
+
+  if (refreshToken) {
+    // 401 时获取新的 token，并使用新的 token 重新发送一次请求
+    request$ = request$.catch((sdkError: HttpErrorMessage) => {
+      if (getErrorStatus(sdkError) !== 401) {
+        return Observable.throw(sdkError)
+      }
+      return refreshToken()
+        .catch(() => Observable.throw(sdkError))
+        .concatMap(token => {
+          const { credentials, ...opts } = _opts
+          const headers = { ..._opts.headers, Authorization: `OAuth2 ${token}` }
+          return retryOnFailure(send({ ...opts, headers }), method, retry)
         })
     })
   }
+
+  if (metrics) {
+    request$ = withMetrics(request$, method, url, _opts, stats, metrics)
+  }
+
+  // 仅在重试（及刷新 token）结束后仍然失败时，才将错误发送到 errorAdapter$；304 不是错误
+  return request$
+    .catch((sdkError: HttpErrorMessage) => {
+      if (getErrorStatus(sdkError) !== 304) {
+        setTimeout(() => {
+          errorAdapter$.next(sdkError)
+        }, 10)
+      }
+      return Observable.throw(sdkError)
+    })
 }
 
 export const getHttpWithResponseHeaders = <T>(
@@ -130,6 +373,11 @@ export class Http<T> {
   private errorAdapter$: Subject<HttpErrorMessage>
   private cloned = false
   private request: Observable<T> | undefined
+  private retry: RetryOptions | false | undefined
+  private timeout: number | undefined
+  private refreshToken: (() => Observable<string>) | undefined
+  private transport: Transport | undefined
+  private metrics: HttpMetricsContext | undefined
   public mapFn: (v$: Observable<T>) => Observable<any> = (dist$ => dist$)
 
   private static get = createMethod('get')
@@ -171,6 +419,10 @@ export class Http<T> {
     return this
   }
 
+  getHeaders() {
+    return { ...this._opts.headers }
+  }
+
   setToken(token: string) {
     delete this._opts.credentials
     this._opts.headers.Authorization = `OAuth2 ${token}`
@@ -182,6 +434,48 @@ export class Http<T> {
     return this
   }
 
+  /**
+   * 设置请求失败时的重试策略，传入 false 关闭重试。
+   * 未设置时使用默认策略（仅重试 get）。
+   */
+  setRetry(retry: RetryOptions | false | undefined) {
+    this.retry = retry
+    return this
+  }
+
+  /**
+   * 设置请求超时时间（毫秒），每次重试单独计时。不设置或设置为 0 则不超时。
+   */
+  setTimeout(timeout: number | undefined) {
+    this.timeout = timeout
+    return this
+  }
+
+  /**
+   * 设置响应为 401 时用于获取新 token 的函数。设置后，401 的请求会在获得
+   * 新 token 后使用它重新发送一次。
+   */
+  setTokenRefresher(refreshToken: (() => Observable<string>) | undefined) {
+    this.refreshToken = refreshToken
+    return this
+  }
+
+  /**
+   * 设置发出请求的底层实现，不设置则使用默认实现。
+   */
+  setTransport(transport: Transport | undefined) {
+    this.transport = transport
+    return this
+  }
+
+  /**
+   * 设置请求完成或失败时记录指标的方式，不设置则不记录。
+   */
+  setMetrics(metrics: HttpMetricsContext | undefined) {
+    this.metrics = metrics
+    return this
+  }
+
   restore() {
     this._opts = Http.defaultOpts()
     return this
@@ -226,6 +520,11 @@ export class Http<T> {
     url: this.url,
     _opts: this._opts,
     errorAdapter$: this.errorAdapter$,
-    includeHeaders: this.includeHeaders
+    includeHeaders: this.includeHeaders,
+    retry: this.retry,
+    timeout: this.timeout,
+    refreshToken: this.refreshToken,
+    transport: this.transport,
+    metrics: this.metrics
   })
 }
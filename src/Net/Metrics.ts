@@ -0,0 +1,97 @@
+import { AllowedHttpMethod, HttpErrorKind } from './Http'
+
+/**
+ * 请求缓存的使用情况：hit 为直接返回了未过期的缓存，stale 为返回过期的缓存并在后台重新验证，
+ * miss 为没有可用的缓存，需要等待请求。
+ */
+export type CacheMetricResult = 'hit' | 'stale' | 'miss'
+
+/**
+ * 单个请求（或 Net 中一次查询对请求缓存的使用）的指标记录，通过 sdk.metrics$ 获得。
+ */
+export interface RequestMetric {
+  method: AllowedHttpMethod
+  /**
+   * 实际请求的 url；Net 的缓存记录中为缓存的 key。
+   */
+  url: string
+  /**
+   * 路径模板，id 被替换为 :id，如 'tasks/:id'；Net 的缓存记录中为表名。
+   */
+  path: string
+  /**
+   * 响应状态码，没有获得响应时为 0，Net 的缓存记录中为 null。
+   */
+  status: number | null
+  /**
+   * 从发出请求到完成（含重试）的毫秒数，不含在调度队列中等待的时间。
+   */
+  duration: number
+  /**
+   * 响应体的字节数。
+   */
+  bytes: number
+  retries: number
+  /**
+   * 仅 Net 的缓存记录中存在。
+   */
+  cache?: CacheMetricResult
+  /**
+   * 请求失败时的错误类型。
+   */
+  error?: HttpErrorKind
+  /**
+   * 开启 SDKFetch 的 setTracing 后，请求附带的 W3C traceparent。
+   */
+  traceparent?: string
+}
+
+export type RequestMetricReporter = (metric: RequestMetric) => void
+
+const idSegment = /^([0-9a-f]{24}|\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i
+
+/**
+ * 将请求路径中的 ObjectId、数字及 uuid 替换为 :id，并去掉 query，
+ * 使同一接口的请求可以被聚合，如 'tasks/5ab886a90773ac00123b7add/subtasks?a=1' => 'tasks/:id/subtasks'。
+ */
+export const toPathTemplate = (path: string): string => {
+  return path.split('?')[0]
+    .split('/')
+    .map(segment => idSegment.test(segment) ? ':id' : segment)
+    .join('/')
+}
+
+/**
+ * 文本以 UTF-8 编码后的字节数。
+ */
+export const byteLength = (text: string): number => {
+  let bytes = 0
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    if (code < 0x80) {
+      bytes += 1
+    } else if (code < 0x800) {
+      bytes += 2
+    } else if (code >= 0xd800 && code < 0xdc00) {
+      // 代理对共 4 个字节
+      bytes += 4
+      i++
+    } else {
+      bytes += 3
+    }
+  }
+  return bytes
+}
+
+const randomHex = (length: number) => {
+  let hex = ''
+  while (hex.length < length) {
+    hex += `0000000${Math.floor(Math.random() * 0x100000000).toString(16)}`.slice(-8)
+  }
+  return hex.slice(0, length)
+}
+
+/**
+ * 生成 W3C Trace Context 的 traceparent，如 '00-{trace-id}-{parent-id}-01'。
+ */
+export const createTraceparent = (): string => `00-${randomHex(32)}-${randomHex(16)}-01`
@@ -1,13 +1,21 @@
+import 'rxjs/add/observable/defer'
+import 'rxjs/add/observable/empty'
 import 'rxjs/add/observable/forkJoin'
+import 'rxjs/add/observable/merge'
 import 'rxjs/add/observable/of'
+import 'rxjs/add/observable/throw'
+import 'rxjs/add/operator/catch'
 import 'rxjs/add/operator/concatAll'
 import 'rxjs/add/operator/do'
+import 'rxjs/add/operator/ignoreElements'
 import 'rxjs/add/operator/mapTo'
 import 'rxjs/add/operator/mergeMap'
+import 'rxjs/add/operator/publishLast'
 import 'rxjs/add/operator/switchMap'
 import 'rxjs/add/operator/filter'
 import { Observable } from 'rxjs/Observable'
 import { BehaviorSubject } from 'rxjs/BehaviorSubject'
+import { Subject } from 'rxjs/Subject'
 import { QueryToken, SelectorMeta, ProxySelector } from 'reactivedb/proxy'
 import {
   Database,
@@ -17,12 +25,23 @@ import {
   JoinMode
  } from 'reactivedb'
 
-import { forEach, ParsedWSMsg, WSMsgToDBHandler, GeneralSchemaDef } from '../utils'
+import { forEach, uuid, ParsedWSMsg, WSMsgToDBHandler, GeneralSchemaDef } from '../utils'
 import { SDKLogger } from '../utils/Logger'
-
+import { HttpErrorMessage } from './Http'
+import { getResponseValidator, ResponseValidator, StoredValidator } from './ConditionalCache'
+import { CacheMetricResult, RequestMetric } from './Metrics'
+import { OfflineQueue, OfflineRequest } from './OfflineQueue'
+import { RequestCacheEntry, RequestCacheStore } from './RequestCacheStore'
+
+/**
+ * Request: 每个缓存键只请求一次（或在 ttl 过期、被 invalidate 后重新请求），之后直接读取 ReactiveDB；
+ * Cache: 每次都发出请求；
+ * StaleWhileRevalidate: 有缓存时立即从 ReactiveDB 返回，缓存过期时在后台重新请求并更新。
+ */
 export enum CacheStrategy {
   Request = 200,
-  Cache
+  Cache,
+  StaleWhileRevalidate
 }
 
 export interface ApiResult<T, U extends CacheStrategy> {
@@ -52,6 +71,69 @@ export interface ApiResult<T, U extends CacheStrategy> {
    */
   excludeFields?: string[]
   padding?: (missedId: string) => Observable<T | null>
+  /**
+   * 缓存的有效时间（毫秒），对 CacheStrategy.Request 与 CacheStrategy.StaleWhileRevalidate 有效。
+   * 未指定时，Request 的缓存不会因时间过期，StaleWhileRevalidate 每次都在后台重新验证。
+   */
+  ttl?: number
+}
+
+export interface CacheInvalidation {
+  tableName?: string
+  cacheKey?: string
+  /**
+   * 匹配以此开头的缓存键，如 'Post:' 匹配所有 Post 表上的查询。
+   */
+  cacheKeyPrefix?: string
+  /**
+   * 匹配查询条件（where）中有字段（包括 $and、$in 等嵌套的条件）的值等于此值的缓存，
+   * 如 projectId 匹配所有以该项目为条件的查询。
+   */
+  whereValue?: any
+  /**
+   * 从 ReactiveDB 删除 tableName 表中满足该条件的数据，需与 tableName 一同使用。
+   */
+  where?: Predicate<any>
+}
+
+const whereContains = (clause: any, value: any): boolean => {
+  if (clause === value) {
+    return true
+  }
+  return clause !== null && typeof clause === 'object' && Object.keys(clause).some(key => whereContains(clause[key], value))
+}
+
+// 缓存键为 `${tableName}:${JSON.stringify(q)}`，见 genCacheKey
+const matchWhere = (cacheKey: string, tableName: string, value: any) => {
+  try {
+    const q = JSON.parse(cacheKey.slice(tableName.length + 1))
+    return !!q && whereContains(q.where, value)
+  } catch (e) {
+    return false
+  }
+}
+
+// 保存到 store 的字段，不包括 restored 及值为 undefined 的字段
+const toStoredEntry = ({ tableName, cachedAt, url, etag, lastModified }: RequestCacheEntry): RequestCacheEntry => {
+  const entry: RequestCacheEntry = { tableName, cachedAt }
+  if (url) {
+    entry.url = url
+  }
+  if (etag) {
+    entry.etag = etag
+  }
+  if (lastModified) {
+    entry.lastModified = lastModified
+  }
+  return entry
+}
+
+const matchCache = (invalidation: CacheInvalidation, cacheKey: string, tableName: string) => {
+  const { tableName: table, cacheKey: key, cacheKeyPrefix: prefix, whereValue } = invalidation
+  return (!table || table === tableName) &&
+    (!key || key === cacheKey) &&
+    (!prefix || cacheKey.indexOf(prefix) === 0) &&
+    (typeof whereValue === 'undefined' || matchWhere(cacheKey, tableName, whereValue))
 }
 
 export type AssocField<T> = { [P in keyof T]?: AssocField<T[P]> | string[] }
@@ -60,6 +142,15 @@ export interface CApiResult<T> {
   request: Observable<T>
   tableName: string
   method: 'create'
+  /**
+   * 预期的创建结果。提供时，请求发出前先将其（使用临时主键）写入 ReactiveDB，
+   * 请求成功后替换为服务端返回的数据，失败则移除。
+   */
+  optimistic?: Partial<T>
+  /**
+   * 描述 request 对应的写请求。提供时，启用离线队列后该操作可在离线时排队重放。
+   */
+  offline?: OfflineRequest
 }
 
 export interface UDResult<T> {
@@ -67,6 +158,20 @@ export interface UDResult<T> {
   tableName: string
   method: 'update' | 'delete'
   clause: Predicate<T>
+  /**
+   * 预期的更新内容。提供时，请求发出前先将其写入（delete 时直接删除）clause 匹配的数据，
+   * 请求失败则恢复为请求前的数据。
+   */
+  optimistic?: Partial<T>
+  offline?: OfflineRequest
+}
+
+/**
+ * commit/rollback 返回的 Observable 完成即表示本地数据已经处理完毕。
+ */
+type OptimisticHandle = {
+  commit: () => Observable<any>
+  rollback: () => Observable<any>
 }
 
 export type CUDApiResult<T> = CApiResult<T> | UDResult<T>
@@ -105,13 +210,34 @@ const fieldsPred =
     }
   }
 
+// 由各表的字段生成 schema 版本，表结构变化后，持久化的请求缓存不再有效
+const hashSchemas = (fields: Map<string, string[]>) => {
+  const tables: string[] = []
+  fields.forEach((names, tableName) => tables.push(`${tableName}(${names.slice().sort().join(',')})`))
+  const str = tables.sort().join(';')
+  let hash = 5381
+  for (let i = 0; i < str.length; i++) {
+    hash = ((hash << 5) + hash + str.charCodeAt(i)) | 0
+  }
+  return (hash >>> 0).toString(36)
+}
+
 export class Net {
   public fields = new Map<string, string[]>()
   public database: Database | undefined
-  private requestMap = new Map<string, boolean>()
+  private requestMap = new Map<string, RequestCacheEntry>()
+  private invalidation$ = new Subject<CacheInvalidation>()
+  /**
+   * 每次订阅 CacheStrategy.Request/StaleWhileRevalidate 的查询时，推送一条请求缓存使用情况的记录。
+   */
+  public metrics$ = new Subject<RequestMetric>()
   private primaryKeys = new Map<string, string>()
   public persistedDataBuffer: BufferObject[] = []
   private msgToDB: WSMsgToDBHandler | undefined
+  private offlineQueue: OfflineQueue | undefined
+  private requestCacheStore: RequestCacheStore | undefined
+  private requestCacheVersion = ''
+  private requestCacheSaving = false
 
   private validate = <T>(result: ApiResult<T, CacheStrategy>) => {
     const { tableName, required, padding } = result
@@ -163,10 +289,66 @@ export class Net {
     this.msgToDB = handler
   }
 
+  setOfflineQueue(queue: OfflineQueue | undefined) {
+    this.offlineQueue = queue
+    if (queue && this.database) {
+      queue.setDatabase(this.database)
+    }
+  }
+
+  getSchemaVersion(): string {
+    return hashSchemas(this.fields)
+  }
+
+  /**
+   * 恢复上一次会话保存的请求缓存，之后请求缓存的变化都保存到 store。
+   * 保存时的 schema 版本（及 version）与当前不一致时，丢弃保存的请求缓存。
+   * 恢复的请求缓存视为过期：先返回 ReactiveDB 中的数据，同时在后台重新请求。
+   */
+  persistRequestCache(store: RequestCacheStore, version?: string): Observable<void> {
+    const currentVersion = version ? `${this.getSchemaVersion()}:${version}` : this.getSchemaVersion()
+    return Observable.defer(() => store.load())
+      .concatMap(cache => {
+        this.requestCacheStore = store
+        this.requestCacheVersion = currentVersion
+        if (cache && cache.version !== currentVersion) {
+          return Observable.defer(() => store.clear()).mapTo(null)
+        }
+        if (cache) {
+          forEach(cache.entries, (entry: RequestCacheEntry, cacheKey: string) => {
+            if (!this.requestMap.has(cacheKey)) {
+              this.requestMap.set(cacheKey, { ...toStoredEntry(entry), restored: true })
+            }
+          })
+        }
+        return Observable.of(null)
+      })
+      .catch((e: any) => {
+        SDKLogger.error(`failed to restore request cache: ${e && e.message}`)
+        return Observable.of(null)
+      })
+      .mapTo(void 0)
+  }
+
+  /**
+   * 恢复的请求缓存中响应的验证信息，由 SDK 交给 SDKFetch，重新验证时发出条件请求。
+   */
+  getRestoredValidators(): StoredValidator[] {
+    const validators: StoredValidator[] = []
+    this.requestMap.forEach(({ restored, url, etag, lastModified }) => {
+      if (restored && url) {
+        validators.push({ url, etag, lastModified })
+      }
+    })
+    return validators
+  }
+
   lift<T>(result: ApiResult<T, CacheStrategy.Cache>): QueryToken<T>
 
   lift<T>(result: ApiResult<T, CacheStrategy.Request>): QueryToken<T>
 
+  lift<T>(result: ApiResult<T, CacheStrategy.StaleWhileRevalidate>): QueryToken<T>
+
   lift<T>(result: CUDApiResult<T>): Observable<T>
 
   lift<T>(result: ApiResult<T, CacheStrategy> | CUDApiResult<T>) {
@@ -193,26 +375,100 @@ export class Net {
       return this.bufferCUDResponse(result)
     }
 
+    const queue = this.offlineQueue
+    const offline = result.offline
+    if (!queue || !offline) {
+      return this.applyCUDResult(result)
+    }
+
+    const write = {
+      tableName: result.tableName,
+      primaryKey: this.primaryKeys.get(result.tableName) || '_id',
+      method: result.method,
+      clause: result.method !== 'create' ? result.clause : undefined,
+      request: offline
+    }
+    return Observable.defer(() => {
+      if (queue.isQueueing()) {
+        return queue.enqueue(write)
+      }
+      // 因网络错误失败的写请求进入离线队列
+      return this.applyCUDResult(result)
+        .catch((err: HttpErrorMessage) => {
+          if (!err || err.kind !== 'network') {
+            return Observable.throw(err)
+          }
+          queue.reportNetworkError()
+          return queue.enqueue(write)
+        })
+    })
+  }
+
+  private applyCUDResult<T>(result: CUDApiResult<T>): Observable<T> {
+    const { request } = result
+
+    if (!result.optimistic) {
+      return request.concatMap(v => this.applyCUDResponse(result, v))
+    }
+
+    return this.applyOptimistic(result)
+      .concatMap(({ commit, rollback }) => request
+        .concatMap(v => commit().concatMap(() => this.applyCUDResponse(result, v)))
+        .catch(err => rollback().concatMap(() => Observable.throw(err)))
+      )
+  }
+
+  private applyCUDResponse<T>(result: CUDApiResult<T>, v: T): Observable<T> {
     const database = this.database!
+    const { method, tableName } = result
 
-    const { request, method, tableName } = result as CUDApiResult<T>
     let destination: Observable<ExecutorResult> | Observable<T | T[]>
-    return request
-      .concatMap(v => {
-        switch (method) {
-          case 'create':
-            destination = database.upsert<T>(tableName, v)
-            break
-          case 'update':
-            destination = database.upsert(tableName, v)
-            break
-          case 'delete':
-            destination = database.delete<T>(tableName, (result as UDResult<T>).clause)
-            break
-          default:
-            throw new Error()
-        }
-        return destination.mapTo<ExecutorResult | T | T[], T>(v)
+    switch (method) {
+      case 'create':
+        destination = database.upsert<T>(tableName, v)
+        break
+      case 'update':
+        destination = database.upsert(tableName, v)
+        break
+      case 'delete':
+        destination = database.delete<T>(tableName, (result as UDResult<T>).clause)
+        break
+      default:
+        throw new Error()
+    }
+    return destination.mapTo<ExecutorResult | T | T[], T>(v)
+  }
+
+  /**
+   * 在请求发出前，将 optimistic 写入 ReactiveDB。返回的 commit 在请求成功、写入响应前调用，
+   * rollback 在请求失败时调用，恢复写入前的数据。
+   */
+  private applyOptimistic<T>(result: CUDApiResult<T>): Observable<OptimisticHandle> {
+    const database = this.database!
+    const { method, tableName, optimistic } = result
+    const pk = this.primaryKeys.get(tableName) || '_id'
+    const noop = () => Observable.of(null)
+
+    if (method === 'create') {
+      const tempClause = { [pk]: `optimistic-${uuid()}` }
+      const removeTemp = () => database.delete(tableName, tempClause)
+      return database.upsert(tableName, { ...(optimistic as any), ...tempClause })
+        .mapTo({ commit: removeTemp, rollback: removeTemp })
+    }
+
+    const { clause } = result as UDResult<T>
+    // 无法确定受影响的数据（如 updateUser 的 clause 为 {}）时，不做乐观更新
+    if (!clause || !Object.keys(clause).length) {
+      return Observable.of({ commit: noop, rollback: noop })
+    }
+
+    return database.get<T>(tableName, { where: clause, fields: this.fields.get(tableName) as any[] }).values()
+      .concatMap(snapshot => {
+        const rollback = () => snapshot.length ? database.upsert(tableName, snapshot) : noop()
+        const write$: Observable<ExecutorResult> = method === 'update'
+          ? database.update(tableName, clause, optimistic!)
+          : database.delete(tableName, clause)
+        return write$.mapTo({ commit: noop, rollback })
       })
   }
 
@@ -220,6 +476,9 @@ export class Net {
     if (!this.database) {
       this.database = database
     }
+    if (this.offlineQueue) {
+      this.offlineQueue.setDatabase(database)
+    }
 
     const asyncQueue: Observable<any>[] = []
 
@@ -237,7 +496,8 @@ export class Net {
           break
         case 'Selector':
           const cacheControl$ = v.proxySelector
-          const token = this.handleRequestCache(v.realSelectorInfo)
+          // bufferResponse 返回的 QueryToken 已经包含了 invalidate 后的重新请求
+          const token = this.handleRequestCache(v.realSelectorInfo, false)
           const selector$ = token.selector$
 
           p = selector$
@@ -281,7 +541,12 @@ export class Net {
       proxySelector: cacheControl$
     })
 
-    return new QueryToken(cacheControl$).map(this.validate(result))
+    const refetch$ = this.refetchOnInvalidate(tableName, this.genCacheKey(tableName, q), Observable.defer(() => {
+      const database = this.database
+      return database ? this.cacheResponse(database, result, tableName, q) : Observable.empty<ExecutorResult>()
+    }))
+
+    return new QueryToken<T>(Observable.merge(cacheControl$, refetch$)).map(this.validate(result))
   }
 
   bufferCUDResponse<T>(result: CUDApiResult<T>) {
@@ -305,49 +570,199 @@ export class Net {
     return Observable.of(null)
   }
 
+  /**
+   * 获得 ApiResult 对应的缓存键，可用于 invalidate。
+   */
+  getCacheKey<T>(result: ApiResult<T, CacheStrategy>) {
+    const { tableName, q } = this.getInfoFromResult(result)
+    return this.genCacheKey(tableName, q)
+  }
+
+  /**
+   * 清除匹配的请求缓存（不传参数时清除所有缓存），之后的查询会重新发出请求，
+   * 仍在订阅中的查询也会立即重新请求。指定 where 时，先从 ReactiveDB 中删除
+   * tableName 表中满足 where 的数据。返回的 Observable 在删除完成后推送并完成。
+   */
+  invalidate(options: CacheInvalidation = {}): Observable<void> {
+    const { tableName, where } = options
+    if (where && !tableName) {
+      throw new TypeError('tableName is required when purging rows with where')
+    }
+
+    this.requestMap.forEach((entry, key) => {
+      if (matchCache(options, key, entry.tableName)) {
+        this.requestMap.delete(key)
+      }
+    })
+    this.saveRequestCache()
+
+    const database = this.database
+    const purge$: Observable<any> = database && tableName && where
+      ? database.delete(tableName, where)
+      : Observable.of(null)
+    const done$ = purge$
+      .do(() => this.invalidation$.next(options))
+      .mapTo(void 0)
+      .publishLast()
+    done$.connect()
+    return done$
+  }
+
   private genCacheKey<T>(tableName: string, q: Readonly<Query<T>>) {
     const key = `${tableName}:${JSON.stringify(q)}`
     return key
   }
 
-  private handleRequestCache<T>(result: ApiResult<T, CacheStrategy>) {
+  private setRequestCache(cacheKey: string, tableName: string, validator?: ResponseValidator) {
+    const { url, etag, lastModified } = validator || {} as Partial<ResponseValidator>
+    this.requestMap.set(cacheKey, toStoredEntry({ tableName, cachedAt: Date.now(), url, etag, lastModified }))
+    this.saveRequestCache()
+  }
+
+  /**
+   * 同一 tick 内的多次变化合并为一次保存。
+   */
+  private saveRequestCache() {
+    const store = this.requestCacheStore
+    if (!store || this.requestCacheSaving) {
+      return
+    }
+    this.requestCacheSaving = true
+    Promise.resolve().then(() => {
+      this.requestCacheSaving = false
+      const entries = {}
+      this.requestMap.forEach((entry, cacheKey) => entries[cacheKey] = toStoredEntry(entry))
+      return store.save({ version: this.requestCacheVersion, entries })
+    })
+      .catch(e => SDKLogger.error(`failed to save request cache: ${e && e.message}`))
+  }
+
+  private isFresh(entry: RequestCacheEntry | undefined, ttl: number) {
+    return !!entry && !entry.restored && Date.now() - entry.cachedAt < ttl
+  }
+
+  private handleRequestCache<T>(result: ApiResult<T, CacheStrategy>, refetchOnInvalidate: boolean = true) {
     const database = this.database!
     const {
-      request,
       q,
       cacheValidate,
       tableName
     } = this.getInfoFromResult(result)
 
-    // 将类型 Observalbe<T> | Observable<T[]> 弱化为 Observable<T | T[]>
-    const response$: Observable<T | T[]> = request
     const cacheKey = this.genCacheKey(tableName, q)
     const requestCache = this.requestMap.get(cacheKey)
+    const ttl = typeof result.ttl === 'number'
+      ? result.ttl
+      : cacheValidate === CacheStrategy.StaleWhileRevalidate ? 0 : Infinity
 
-    let token: QueryToken<T>
+    const cache$ = this.cacheResponse(database, result, tableName, q)
+    const dbSelector$ = () => dbGetWithSelfJoinEnabled<T>(database, tableName, q).selector$
+
+    const measured = <R>(cache: CacheMetricResult, source$: () => Observable<R>) =>
+      this.withCacheMetric(cacheKey, tableName, cache, source$)
+
+    let selector$: Observable<SelectorMeta<T>>
     switch (cacheValidate) {
       case CacheStrategy.Request:
+        if (this.isFresh(requestCache, ttl)) {
+          selector$ = measured('hit', dbSelector$)
+        } else if (requestCache && requestCache.restored) {
+          selector$ = Observable.merge(measured('stale', dbSelector$), this.revalidate(cacheKey, cache$))
+        } else {
+          selector$ = measured('miss', () => cache$).concatMap(dbSelector$)
+        }
+        break
+      case CacheStrategy.StaleWhileRevalidate:
         if (!requestCache) {
-          /*tslint:disable no-shadowed-variable*/
-          const selector$ = response$
-            .concatMap(v => database.upsert(tableName, v))
-            .do(() => this.requestMap.set(cacheKey, true))
-            .concatMap(() => dbGetWithSelfJoinEnabled<T>(database, tableName, q).selector$)
-          token = new QueryToken(selector$)
+          selector$ = measured('miss', () => cache$).concatMap(dbSelector$)
+        } else if (this.isFresh(requestCache, ttl)) {
+          selector$ = measured('hit', dbSelector$)
         } else {
-          token = dbGetWithSelfJoinEnabled<T>(database, tableName, q)
+          // 先返回缓存，更新写入 ReactiveDB 后，查询结果随之更新
+          selector$ = Observable.merge(measured('stale', dbSelector$), this.revalidate(cacheKey, cache$))
         }
-        token.map(this.validate(result))
         break
       case CacheStrategy.Cache:
-        const selector$ = response$
-          .concatMap(v => database.upsert(tableName, v))
-          .concatMap(() => dbGetWithSelfJoinEnabled<T>(database, tableName, q).selector$)
-        return new QueryToken(selector$)
+        selector$ = cache$.concatMap(dbSelector$)
+        break
       default:
         throw new TypeError('unreachable code path')
     }
-    return token
+
+    if (refetchOnInvalidate) {
+      selector$ = Observable.merge(selector$, this.refetchOnInvalidate(tableName, cacheKey, cache$))
+    }
+    const token = new QueryToken<T>(selector$)
+    return cacheValidate === CacheStrategy.Cache ? token : token.map(this.validate(result))
+  }
+
+  /**
+   * 订阅时记录缓存的使用情况；miss 时在请求结果写入 ReactiveDB 后记录，duration 为等待的时间。
+   */
+  private withCacheMetric<R>(
+    cacheKey: string,
+    tableName: string,
+    cache: CacheMetricResult,
+    source$: () => Observable<R>
+  ): Observable<R> {
+    return Observable.defer(() => {
+      const startedAt = Date.now()
+      const report = () => this.metrics$.next({
+        method: 'get',
+        url: cacheKey,
+        path: tableName,
+        status: null,
+        duration: Date.now() - startedAt,
+        bytes: 0,
+        retries: 0,
+        cache
+      })
+      if (cache !== 'miss') {
+        report()
+        return source$()
+      }
+      return source$().do({ complete: report })
+    })
+  }
+
+  /**
+   * 发出请求，将结果写入 ReactiveDB，并记录请求缓存。
+   */
+  private cacheResponse<T>(database: Database, result: ApiResult<T, CacheStrategy>, tableName: string, q: Query<T>) {
+    // 将类型 Observalbe<T> | Observable<T[]> 弱化为 Observable<T | T[]>
+    const response$: Observable<T | T[]> = result.request
+    const cacheKey = this.genCacheKey(tableName, q)
+    let validator: ResponseValidator | undefined
+    return response$
+      .concatMap(v => {
+        validator = getResponseValidator(v)
+        // 响应为 304 时缓存仍然有效，无需重新写入 ReactiveDB
+        return validator && validator.notModified && this.requestMap.has(cacheKey)
+          ? Observable.of<ExecutorResult | null>(null)
+          : database.upsert(tableName, v)
+      })
+      .do(() => this.setRequestCache(cacheKey, tableName, validator))
+  }
+
+  /**
+   * 在后台执行 cache$，不推送结果，失败不影响已返回的缓存。
+   */
+  private revalidate(cacheKey: string, cache$: Observable<ExecutorResult | null>): Observable<any> {
+    return cache$
+      .catch((e: any) => {
+        SDKLogger.error(`failed to revalidate ${cacheKey}: ${e && e.message}`)
+        return Observable.empty<null>()
+      })
+      .ignoreElements()
+  }
+
+  /**
+   * 缓存被 invalidate 时，仍在订阅中的查询重新请求，结果写入 ReactiveDB 后查询结果随之更新。
+   */
+  private refetchOnInvalidate(tableName: string, cacheKey: string, cache$: Observable<ExecutorResult | null>): Observable<any> {
+    return this.invalidation$
+      .filter(invalidation => matchCache(invalidation, cacheKey, tableName))
+      .switchMap(() => this.revalidate(cacheKey, cache$))
   }
 
   private getInfoFromResult<T>(result: ApiResult<T, CacheStrategy>) {
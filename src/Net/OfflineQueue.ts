@@ -0,0 +1,456 @@
+import 'rxjs/add/observable/defer'
+import 'rxjs/add/observable/from'
+import 'rxjs/add/observable/of'
+import 'rxjs/add/observable/throw'
+import 'rxjs/add/operator/catch'
+import 'rxjs/add/operator/concatMap'
+import 'rxjs/add/operator/do'
+import 'rxjs/add/operator/finally'
+import 'rxjs/add/operator/map'
+import 'rxjs/add/operator/mapTo'
+import 'rxjs/add/operator/publishReplay'
+import 'rxjs/add/operator/toArray'
+import { Observable } from 'rxjs/Observable'
+import { Subject } from 'rxjs/Subject'
+import { Database } from 'reactivedb'
+import { HttpErrorMessage } from './Http'
+import { getErrorStatus } from './Retry'
+import { uuid } from '../utils'
+import { SDKLogger } from '../utils/Logger'
+
+/**
+ * 可在离线时排队、重新上线后重放的写请求，由 API 提供给 Net.lift。
+ */
+export interface OfflineRequest {
+  method: 'post' | 'put' | 'delete'
+  path: string
+  body?: any
+  /**
+   * 离线时写入本地数据库的内容，默认为 body。
+   */
+  patch?: any
+}
+
+export type OfflineCUDMethod = 'create' | 'update' | 'delete'
+
+export interface PendingWrite {
+  id: string
+  tableName: string
+  primaryKey: string
+  method: OfflineCUDMethod
+  clause?: any
+  request: OfflineRequest
+  /**
+   * create 时本地数据使用的临时主键，重放成功后替换为服务端返回的数据。
+   */
+  localId?: string
+  /**
+   * update/delete 写入本地数据库前受影响的数据，写请求被丢弃时用于恢复。
+   */
+  snapshot?: any[]
+  createdAt: number
+}
+
+export type PendingWriteInit = Pick<PendingWrite, 'tableName' | 'primaryKey' | 'method' | 'clause' | 'request'>
+
+/**
+ * queued: 写请求进入离线队列；
+ * replayed: 重放成功；
+ * conflict: 重放时服务端返回 409/412，该写请求被丢弃；
+ * failed: 重放时遇到不可恢复的错误，该写请求被丢弃。
+ */
+export type OfflineWriteEvent =
+  { kind: 'queued', write: PendingWrite } |
+  { kind: 'replayed', write: PendingWrite, response: any } |
+  { kind: 'conflict', write: PendingWrite, error: HttpErrorMessage } |
+  { kind: 'failed', write: PendingWrite, error: HttpErrorMessage }
+
+/**
+ * 离线队列的持久化存储。
+ */
+export interface OfflineStore {
+  load(): Promise<PendingWrite[]>
+  add(write: PendingWrite): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+export class MemoryOfflineStore implements OfflineStore {
+  private writes: PendingWrite[] = []
+
+  load() {
+    return Promise.resolve(this.writes.slice())
+  }
+
+  add(write: PendingWrite) {
+    this.writes.push(write)
+    return Promise.resolve()
+  }
+
+  remove(id: string) {
+    this.writes = this.writes.filter(write => write.id !== id)
+    return Promise.resolve()
+  }
+}
+
+/* istanbul ignore next */
+export class IndexedDBOfflineStore implements OfflineStore {
+  private static storeName = 'pendingWrites'
+  private db: Promise<IDBDatabase> | null = null
+
+  constructor(private dbName: string = 'teambition-sdk-offline') {}
+
+  load() {
+    return this.objectStore('readonly').then(store => new Promise<PendingWrite[]>((resolve, reject) => {
+      const writes: PendingWrite[] = []
+      const req = store.openCursor()
+      req.onsuccess = () => {
+        const cursor: IDBCursorWithValue | null = req.result
+        if (cursor) {
+          writes.push(cursor.value)
+          cursor.continue()
+        } else {
+          resolve(writes)
+        }
+      }
+      req.onerror = () => reject(req.error)
+    }))
+  }
+
+  add(write: PendingWrite) {
+    return this.request('readwrite', store => store.put(write))
+  }
+
+  remove(id: string) {
+    return this.request('readwrite', store => store.delete(id))
+  }
+
+  private open() {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        const req = indexedDB.open(this.dbName, 1)
+        req.onupgradeneeded = () => {
+          req.result.createObjectStore(IndexedDBOfflineStore.storeName, { keyPath: 'id' })
+        }
+        req.onsuccess = () => resolve(req.result)
+        req.onerror = () => reject(req.error)
+      })
+    }
+    return this.db
+  }
+
+  private objectStore(mode: IDBTransactionMode) {
+    return this.open().then(db => db.transaction(IndexedDBOfflineStore.storeName, mode)
+      .objectStore(IndexedDBOfflineStore.storeName)
+    )
+  }
+
+  private request(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<void> {
+    return this.objectStore(mode).then(store => new Promise<void>((resolve, reject) => {
+      const req = fn(store)
+      req.onsuccess = () => resolve()
+      req.onerror = () => reject(req.error)
+    }))
+  }
+}
+
+const conflictStatus = [409, 412]
+
+// 网络错误、超时、限流及 5xx 视为暂时性错误，写请求留在队列中等待下次重放
+const isTransientError = (err: HttpErrorMessage) => {
+  if (!err || err.kind === 'network' || err.kind === 'timeout') {
+    return true
+  }
+  const status = getErrorStatus(err)
+  return status === 408 || status === 429 || status >= 500
+}
+
+const isEmptyClause = (clause: any) => !clause || !Object.keys(clause).length
+
+const minProbeDelay = 1000
+const maxProbeDelay = 60 * 1000
+
+/**
+ * 离线写队列。离线（或队列中仍有未重放的写请求）时，写请求不直接发出，
+ * 而是按顺序持久化并立即写入本地数据库；重新上线后按顺序重放。
+ */
+export class OfflineQueue {
+
+  /**
+   * 写请求进入队列、重放成功、冲突及失败时推送。
+   */
+  readonly events$ = new Subject<OfflineWriteEvent>()
+
+  private writes: PendingWrite[] = []
+  private database: Database | undefined
+  private online = typeof navigator !== 'undefined' && typeof navigator.onLine === 'boolean'
+    ? navigator.onLine
+    : true
+  private lastCreatedAt = 0
+  private replay$: Observable<void> | null = null
+  private probeTimer: any = null
+  private probeDelay = minProbeDelay
+
+  constructor(
+    private send: (write: PendingWrite) => Observable<any>,
+    private store: OfflineStore = new MemoryOfflineStore()
+  ) {}
+
+  setDatabase(database: Database) {
+    this.database = database
+    return this
+  }
+
+  isOnline() {
+    return this.online
+  }
+
+  /**
+   * 设置网络状态，重新上线时开始重放。
+   */
+  setOnline(online: boolean) {
+    this.clearProbe()
+    this.probeDelay = minProbeDelay
+    this.online = online
+    if (online) {
+      this.replay().subscribe()
+    }
+    return this
+  }
+
+  /**
+   * 请求因网络错误失败时调用：进入离线状态，并以指数退避的间隔尝试重新上线，
+   * 不依赖浏览器的 online 事件（Node.js 中没有，navigator 也可能从未离线）。
+   */
+  reportNetworkError() {
+    this.online = false
+    this.scheduleProbe()
+    return this
+  }
+
+  getPendingWrites(): PendingWrite[] {
+    return this.writes.slice()
+  }
+
+  /**
+   * 新的写请求是否需要排队：离线，或队列中有尚未重放的写请求（以保证顺序）。
+   */
+  isQueueing() {
+    return !this.online || this.writes.length > 0
+  }
+
+  /**
+   * 从存储中恢复上一次会话未完成的写请求，并重新写入本地数据库。
+   */
+  restore(): Observable<PendingWrite[]> {
+    return Observable.defer(() => this.store.load())
+      .concatMap(writes => {
+        const restored = writes
+          .filter(write => this.writes.every(w => w.id !== write.id))
+          .sort((a, b) => a.createdAt - b.createdAt)
+        this.writes = restored.concat(this.writes)
+        return Observable.from(restored)
+          .concatMap(write => this.applyLocal(write))
+          .toArray()
+          .mapTo(restored)
+      })
+      .do(() => {
+        if (this.online) {
+          this.replay().subscribe()
+        }
+      })
+  }
+
+  /**
+   * 将写请求放入队列，写入本地数据库，返回写入本地的数据。
+   */
+  enqueue(init: PendingWriteInit): Observable<any> {
+    const id = uuid()
+    const createdAt = this.lastCreatedAt = Math.max(Date.now(), this.lastCreatedAt + 1)
+    const write: PendingWrite = {
+      ...init,
+      id, createdAt,
+      localId: init.method === 'create' ? `offline-${id}` : undefined
+    }
+
+    this.writes.push(write)
+    this.events$.next({ kind: 'queued', write })
+
+    return this.takeSnapshot(write)
+      .do(snapshot => {
+        if (snapshot) {
+          write.snapshot = snapshot
+        }
+        this.store.add(write).catch(e => SDKLogger.error(`failed to persist offline write: ${e}`))
+      })
+      .concatMap(() => this.applyLocal(write))
+  }
+
+  /**
+   * 按顺序重放队列中的写请求。遇到暂时性错误时停止，写请求留在队列中，
+   * 以指数退避的间隔自动再次重放（或等待下一次上线、调用 replay）。同时发生的多次调用共享同一次重放。
+   */
+  replay(): Observable<void> {
+    if (!this.replay$) {
+      this.replay$ = Observable.defer(() => this.replayNext())
+        .finally(() => {
+          this.replay$ = null
+        })
+        .publishReplay(1)
+        .refCount()
+    }
+    return this.replay$
+  }
+
+  private replayNext(): Observable<void> {
+    const write = this.writes[0]
+    if (!write || !this.online) {
+      return Observable.of(void 0)
+    }
+
+    return this.send(write)
+      .concatMap(response => this.applyResponse(write, response)
+        .do(() => this.events$.next({ kind: 'replayed', write, response }))
+      )
+      .mapTo(true)
+      .catch((error: HttpErrorMessage) => {
+        if (isTransientError(error)) {
+          // 其他暂时性错误（5xx、429、超时）时仍保持在线，同样以指数退避的间隔再次重放，
+          // 否则写请求一直留在队列头部，之后的写请求也只会排队
+          if (error && error.kind === 'network') {
+            this.reportNetworkError()
+          } else {
+            this.scheduleProbe()
+          }
+          return Observable.of(false)
+        }
+        const status = getErrorStatus(error)
+        // 被丢弃的写请求不应在本地数据库中留下痕迹
+        return this.rollbackLocal(write)
+          .do(() => this.events$.next(conflictStatus.indexOf(status) !== -1
+            ? { kind: 'conflict', write, error }
+            : { kind: 'failed', write, error }
+          ))
+          .mapTo(true)
+      })
+      .concatMap(done => {
+        if (!done) {
+          return Observable.of(void 0)
+        }
+        this.probeDelay = minProbeDelay
+        this.remove(write)
+        return this.replayNext()
+      })
+  }
+
+  private scheduleProbe() {
+    if (this.probeTimer) {
+      return
+    }
+    const delay = this.probeDelay
+    this.probeDelay = Math.min(delay * 2, maxProbeDelay)
+    this.probeTimer = setTimeout(() => {
+      this.probeTimer = null
+      this.online = true
+      // 队列为空时直接恢复在线，下一次写请求再次遇到网络错误时会重新进入离线状态
+      this.replay().subscribe()
+    }, delay)
+    // 不阻止 Node.js 进程退出
+    if (typeof this.probeTimer.unref === 'function') {
+      this.probeTimer.unref()
+    }
+  }
+
+  private clearProbe() {
+    if (this.probeTimer) {
+      clearTimeout(this.probeTimer)
+      this.probeTimer = null
+    }
+  }
+
+  private takeSnapshot(write: PendingWrite): Observable<any[] | null> {
+    const { tableName, method, clause } = write
+    const database = this.database
+    if (!database || method === 'create' || isEmptyClause(clause)) {
+      return Observable.of(null)
+    }
+    return database.get<any>(tableName, { where: clause }).values()
+  }
+
+  private rollbackLocal(write: PendingWrite): Observable<any> {
+    const { tableName, primaryKey, method, localId, snapshot } = write
+    const database = this.database
+    let rollback$: Observable<any> | null = null
+    if (database && method === 'create') {
+      rollback$ = database.delete(tableName, { [primaryKey]: localId })
+    } else if (database && snapshot && snapshot.length) {
+      rollback$ = database.upsert(tableName, snapshot)
+    }
+    if (!rollback$) {
+      return Observable.of(null)
+    }
+    return rollback$.catch(e => {
+      SDKLogger.error(`failed to roll back discarded write: ${e && e.message}`)
+      return Observable.of(null)
+    })
+  }
+
+  private remove(write: PendingWrite) {
+    this.writes = this.writes.filter(w => w !== write)
+    this.store.remove(write.id).catch(e => SDKLogger.error(`failed to remove offline write: ${e}`))
+  }
+
+  private applyLocal(write: PendingWrite): Observable<any> {
+    const { tableName, primaryKey, method, clause, request, localId } = write
+    const patch = typeof request.patch !== 'undefined' ? request.patch : request.body
+    const database = this.database
+
+    switch (method) {
+      case 'create':
+        const value = { ...patch, [primaryKey]: localId }
+        return database ? database.upsert(tableName, value).mapTo(value) : Observable.of(value)
+      case 'update':
+        // 无法确定要更新的数据时（如 updateUser），只排队，不写入本地数据库
+        return database && !isEmptyClause(clause)
+          ? database.update(tableName, clause, patch).mapTo(patch)
+          : Observable.of(patch)
+      case 'delete':
+        return database ? database.delete(tableName, clause).mapTo(patch) : Observable.of(patch)
+      default:
+        return Observable.throw(new TypeError('unreachable code path'))
+    }
+  }
+
+  private applyResponse(write: PendingWrite, response: any): Observable<any> {
+    const { tableName, primaryKey, method, clause, localId } = write
+    const database = this.database
+    if (!database) {
+      return Observable.of(response)
+    }
+
+    let destination: Observable<any>
+    switch (method) {
+      case 'create':
+        destination = database.delete(tableName, { [primaryKey]: localId })
+          .concatMap(() => database.upsert(tableName, response))
+        break
+      case 'update':
+        const hasPrimaryKey = response && typeof response[primaryKey] !== 'undefined'
+        // 与 applyLocal 一致，无法确定要更新的数据时（如 updateUser），不写入本地数据库
+        if (!hasPrimaryKey && isEmptyClause(clause)) {
+          return Observable.of(response)
+        }
+        destination = database.upsert(tableName, hasPrimaryKey ? response : { ...clause, ...response })
+        break
+      default:
+        destination = database.delete(tableName, clause)
+        break
+    }
+    // 服务端已经接受了该写请求，本地数据库写入失败不影响重放的进行
+    return destination
+      .mapTo(response)
+      .catch(e => {
+        SDKLogger.error(`failed to apply replayed write: ${e && e.message}`)
+        return Observable.of(response)
+      })
+  }
+}
@@ -0,0 +1,202 @@
+import 'rxjs/add/observable/combineLatest'
+import 'rxjs/add/observable/of'
+import 'rxjs/add/operator/do'
+import 'rxjs/add/operator/finally'
+import 'rxjs/add/operator/map'
+import 'rxjs/add/operator/publishLast'
+import 'rxjs/add/operator/publishReplay'
+import 'rxjs/add/operator/switchMap'
+import 'rxjs/add/operator/take'
+import 'rxjs/add/operator/takeUntil'
+import { BehaviorSubject } from 'rxjs/BehaviorSubject'
+import { Observable } from 'rxjs/Observable'
+import { Subject } from 'rxjs/Subject'
+import { Subscription } from 'rxjs/Subscription'
+import { QueryToken } from 'reactivedb/proxy'
+import { ApiResult, CacheStrategy } from './Net'
+import { pagination } from '../utils'
+
+export interface PageParams {
+  /**
+   * 从 1 开始的页码。
+   */
+  page: number
+  count: number
+  /**
+   * 与 page、count 对应的 ReactiveDB 查询参数。
+   */
+  skip: number
+  limit: number
+}
+
+export interface CursorParams {
+  /**
+   * 上一页响应中的游标，第一页为 null。
+   */
+  cursor: string | null
+  count: number
+  /**
+   * 已加载的数据条数，可用于 ReactiveDB 查询。
+   */
+  skip: number
+  limit: number
+}
+
+/**
+ * 以 includeHeaders 方式获得的响应。
+ */
+export interface PageResponse<T> {
+  headers: { [key: string]: string }
+  body: T[]
+}
+
+export type CursorApiResult<T> =
+  Pick<ApiResult<T, CacheStrategy>, Exclude<keyof ApiResult<T, CacheStrategy>, 'request'>> & {
+    request: Observable<PageResponse<T>>
+  }
+
+/**
+ * page: 按页码与每页条数（page/count）分页，返回的条数少于 count 即没有下一页；
+ * cursor: 按响应头中的游标分页，没有游标即没有下一页。游标只能从请求的响应中获得，
+ * 因此 cursor 风格的 ApiResult 一般使用 CacheStrategy.Cache。
+ */
+export type PaginatorOptions<T> = {
+  style: 'page'
+  count?: number
+  getResult: (params: PageParams) => ApiResult<T, CacheStrategy>
+} | {
+  style: 'cursor'
+  count?: number
+  getResult: (params: CursorParams) => CursorApiResult<T>
+  /**
+   * 从响应头中取得下一页的游标，默认读取 next 字段。
+   */
+  getNextCursor?: (headers: { [key: string]: string }) => string | null | undefined
+}
+
+const defaultGetNextCursor = (headers: { [key: string]: string }) => headers['next']
+
+/**
+ * 将按页获取的 ApiResult 组合为一个可持续加载的列表：每次 loadMore 加载下一页，
+ * result$ 推送所有已加载页面的数据（按页顺序拼接），任何一页在 ReactiveDB 中的变化都会推送。
+ */
+export class Paginator<T> {
+
+  /**
+   * 是否还有下一页。
+   */
+  readonly hasMore$ = new BehaviorSubject<boolean>(true)
+
+  /**
+   * 是否正在加载下一页。
+   */
+  readonly isLoading$ = new BehaviorSubject<boolean>(false)
+
+  /**
+   * 所有已加载页面的数据。
+   */
+  readonly result$: Observable<T[]>
+
+  private pages$ = new BehaviorSubject<Observable<T[]>[]>([])
+  private subscriptions: Subscription[] = []
+  private loading$: Observable<T[]> | null = null
+  private reset$ = new Subject<void>()
+  private page = 1
+  private loaded = 0
+  private cursor: string | null = null
+  private nextCursor: string | null = null
+
+  constructor(
+    private lift: (result: ApiResult<T, CacheStrategy>) => QueryToken<T>,
+    private options: PaginatorOptions<T>
+  ) {
+    this.result$ = this.pages$.switchMap(pages => !pages.length
+      ? Observable.of([])
+      : Observable.combineLatest(pages).map(results => results.reduce((acc, rows) => acc.concat(rows), []))
+    )
+  }
+
+  /**
+   * 加载下一页，返回该页的数据。加载中再次调用返回同一次加载，没有下一页时返回空数组。
+   * 加载中调用 reset 时，该次加载被丢弃，返回的 Observable 不推送数据直接完成。
+   */
+  loadMore(): Observable<T[]> {
+    if (this.loading$) {
+      return this.loading$
+    }
+    if (!this.hasMore$.getValue()) {
+      return Observable.of([])
+    }
+
+    const count = this.options.count || 20
+    const page$ = this.liftPage(count).changes().publishReplay(1)
+    this.subscriptions.push(page$.connect())
+
+    const loading$ = page$
+      .take(1)
+      .takeUntil(this.reset$)
+      .do(rows => {
+        this.page++
+        this.loaded += rows.length
+        if (this.options.style === 'page') {
+          this.hasMore$.next(rows.length >= count)
+        } else {
+          this.cursor = this.nextCursor
+          this.hasMore$.next(this.cursor !== null)
+        }
+        this.pages$.next(this.pages$.getValue().concat(page$))
+      })
+      .finally(() => {
+        this.loading$ = null
+        this.isLoading$.next(false)
+      })
+      .publishLast()
+
+    this.loading$ = loading$
+    this.isLoading$.next(true)
+    loading$.connect()
+    return loading$
+  }
+
+  /**
+   * 丢弃已加载的页面，回到第一页。
+   */
+  reset() {
+    this.reset$.next()
+    this.dispose()
+    this.page = 1
+    this.loaded = 0
+    this.cursor = this.nextCursor = null
+    this.loading$ = null
+    this.pages$.next([])
+    this.hasMore$.next(true)
+    this.isLoading$.next(false)
+  }
+
+  /**
+   * 停止监听已加载页面的变化。
+   */
+  dispose() {
+    this.subscriptions.forEach(subscription => subscription.unsubscribe())
+    this.subscriptions = []
+  }
+
+  private liftPage(count: number): QueryToken<T> {
+    const options = this.options
+    if (options.style === 'page') {
+      return this.lift(options.getResult({ page: this.page, count, ...pagination(count, this.page) }))
+    }
+
+    const getNextCursor = options.getNextCursor || defaultGetNextCursor
+    const result = options.getResult({ cursor: this.cursor, count, skip: this.loaded, limit: count })
+    // 命中缓存而没有发出请求时，无法获得游标，视为没有下一页
+    this.nextCursor = null
+    return this.lift({
+      ...result,
+      request: result.request.map(({ headers, body }) => {
+        this.nextCursor = getNextCursor(headers) || null
+        return body
+      })
+    })
+  }
+}
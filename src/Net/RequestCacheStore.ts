@@ -0,0 +1,107 @@
+/**
+ * 请求缓存的元数据：请求结果写入的表、写入时间，以及响应的验证信息（开启条件请求时）。
+ */
+export interface RequestCacheEntry {
+  tableName: string
+  cachedAt: number
+  /**
+   * 响应对应的请求 url 及 ETag/Last-Modified，恢复后用于重新验证时发出条件请求。
+   */
+  url?: string
+  etag?: string
+  lastModified?: string
+  /**
+   * 从 store 恢复的缓存，使用前需要重新请求验证。
+   */
+  restored?: boolean
+}
+
+export interface PersistedRequestCache {
+  /**
+   * 写入时的 schema 版本，与当前版本不一致时整体丢弃。
+   */
+  version: string
+  entries: { [cacheKey: string]: RequestCacheEntry }
+}
+
+/**
+ * 请求缓存的持久化存储。应与 ReactiveDB 的持久化方式一致（如同为 IndexedDB），
+ * 否则恢复的缓存会指向不存在的数据。
+ */
+export interface RequestCacheStore {
+  load(): Promise<PersistedRequestCache | null>
+  save(cache: PersistedRequestCache): Promise<void>
+  clear(): Promise<void>
+}
+
+export class MemoryRequestCacheStore implements RequestCacheStore {
+  private cache: PersistedRequestCache | null = null
+
+  load() {
+    return Promise.resolve(this.cache && clonePersisted(this.cache))
+  }
+
+  save(cache: PersistedRequestCache) {
+    this.cache = clonePersisted(cache)
+    return Promise.resolve()
+  }
+
+  clear() {
+    this.cache = null
+    return Promise.resolve()
+  }
+}
+
+/* istanbul ignore next */
+export class IndexedDBRequestCacheStore implements RequestCacheStore {
+  private static storeName = 'requestCache'
+  private static key = 'default'
+  private db: Promise<IDBDatabase> | null = null
+
+  constructor(private dbName: string = 'teambition-sdk-request-cache') {}
+
+  load() {
+    return this.request<PersistedRequestCache | undefined>('readonly', store => store.get(IndexedDBRequestCacheStore.key))
+      .then(cache => cache || null)
+  }
+
+  save(cache: PersistedRequestCache) {
+    return this.request('readwrite', store => store.put(cache, IndexedDBRequestCacheStore.key))
+      .then(() => void 0)
+  }
+
+  clear() {
+    return this.request('readwrite', store => store.delete(IndexedDBRequestCacheStore.key))
+      .then(() => void 0)
+  }
+
+  private open() {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        const req = indexedDB.open(this.dbName, 1)
+        req.onupgradeneeded = () => {
+          req.result.createObjectStore(IndexedDBRequestCacheStore.storeName)
+        }
+        req.onsuccess = () => resolve(req.result)
+        req.onerror = () => reject(req.error)
+      })
+    }
+    return this.db
+  }
+
+  private request<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    return this.open().then(db => new Promise<T>((resolve, reject) => {
+      const store = db.transaction(IndexedDBRequestCacheStore.storeName, mode)
+        .objectStore(IndexedDBRequestCacheStore.storeName)
+      const req = fn(store)
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    }))
+  }
+}
+
+const clonePersisted = (cache: PersistedRequestCache): PersistedRequestCache => {
+  const entries = {}
+  Object.keys(cache.entries).forEach(key => entries[key] = { ...cache.entries[key] })
+  return { version: cache.version, entries }
+}
@@ -0,0 +1,309 @@
+import 'rxjs/add/operator/finally'
+import { BehaviorSubject } from 'rxjs/BehaviorSubject'
+import { Observable } from 'rxjs/Observable'
+import { Observer } from 'rxjs/Observer'
+import { Subject } from 'rxjs/Subject'
+import { Subscription } from 'rxjs/Subscription'
+
+/**
+ * 请求的优先级，队列中优先级高的请求先发出。
+ * 默认 get 请求为 normal，写操作（post/put/delete）为 high；
+ * 后台预取等不急于获得结果的请求可以指定为 low。
+ */
+export type RequestPriority = 'high' | 'normal' | 'low'
+
+const priorities: RequestPriority[] = ['high', 'normal', 'low']
+
+/**
+ * 令牌桶限流：桶容量为 limit，每 interval 毫秒匀速补充 limit 个令牌，
+ * 即允许在突发 limit 个请求后，以平均每 interval 毫秒 limit 个请求的速率发送。
+ */
+export interface RateLimit {
+  limit: number
+  interval: number
+}
+
+export interface RequestSchedulerOptions {
+  /**
+   * 同时进行中的请求数上限。默认不限制。
+   */
+  maxConcurrent?: number
+  /**
+   * 对每个 host 分别生效的限流设置。默认不限流。
+   */
+  rateLimit?: RateLimit | false
+  /**
+   * 为特定 host（如 'www.teambition.com'）单独指定的限流设置，
+   * 设置为 false 则该 host 不限流。
+   */
+  rateLimitPerHost?: { [host: string]: RateLimit | false }
+}
+
+export interface RequestSchedulerState {
+  /**
+   * 进行中的请求数。
+   */
+  active: number
+  /**
+   * 排队等待中的请求数。
+   */
+  queued: number
+  queuedByPriority: { [priority in RequestPriority]: number }
+}
+
+export interface RequestWaitRecord {
+  url: string
+  host: string
+  priority: RequestPriority
+  /**
+   * 请求从进入队列到实际发出所等待的时间（毫秒）。
+   */
+  waitTime: number
+}
+
+interface QueuedRequest {
+  url: string
+  host: string
+  priority: RequestPriority
+  enqueuedAt: number
+  start: () => void
+}
+
+class TokenBucket {
+  private tokens: number
+  private updatedAt: number
+
+  constructor(private rateLimit: RateLimit, now: number) {
+    this.tokens = rateLimit.limit
+    this.updatedAt = now
+  }
+
+  tryTake(now: number): boolean {
+    this.refill(now)
+    if (this.tokens >= 1) {
+      this.tokens -= 1
+      return true
+    }
+    return false
+  }
+
+  /**
+   * 距离获得下一个令牌所需的毫秒数。
+   */
+  waitTime(now: number): number {
+    this.refill(now)
+    const { limit, interval } = this.rateLimit
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * interval / limit)
+  }
+
+  private refill(now: number) {
+    const { limit, interval } = this.rateLimit
+    this.tokens = Math.min(limit, this.tokens + (now - this.updatedAt) * limit / interval)
+    this.updatedAt = now
+  }
+}
+
+export const getHost = (url: string): string => {
+  const matched = /^(?:[a-z][a-z0-9+.-]*:)?\/\/([^\/?#]+)/i.exec(url)
+  return matched ? matched[1] : ''
+}
+
+/**
+ * SDKFetch 的请求调度器，控制请求的并发数与各个 host 的请求速率，
+ * 超出限制的请求按优先级排队，直到可以发出。
+ */
+export class RequestScheduler {
+
+  private options: RequestSchedulerOptions = {}
+  private queues: { [priority in RequestPriority]: QueuedRequest[] } = { high: [], normal: [], low: [] }
+  private buckets = new Map<string, TokenBucket>()
+  private active = 0
+  private draining = false
+  private timer: any = null
+
+  /**
+   * 当前的并发数与队列长度，每次发生变化时推送。
+   */
+  readonly state$ = new BehaviorSubject<RequestSchedulerState>(this.getState())
+
+  /**
+   * 每个请求实际发出时，推送它在队列中等待的时间。
+   */
+  readonly wait$ = new Subject<RequestWaitRecord>()
+
+  constructor(options?: RequestSchedulerOptions) {
+    if (options) {
+      this.configure(options)
+    }
+  }
+
+  configure(options: RequestSchedulerOptions) {
+    this.options = { ...options }
+    this.buckets.clear()
+    this.drain()
+    return this
+  }
+
+  getOptions(): RequestSchedulerOptions {
+    return { ...this.options }
+  }
+
+  getState(): RequestSchedulerState {
+    const queuedByPriority = {
+      high: this.queues.high.length,
+      normal: this.queues.normal.length,
+      low: this.queues.low.length
+    }
+    return {
+      active: this.active,
+      queued: queuedByPriority.high + queuedByPriority.normal + queuedByPriority.low,
+      queuedByPriority
+    }
+  }
+
+  /**
+   * 返回的 Observable 被订阅时，请求进入队列，轮到它时才订阅 request$
+   * （即实际发出请求）。在发出前取消订阅，请求会被移出队列。
+   */
+  schedule<T>(request$: Observable<T>, url: string, priority: RequestPriority = 'normal'): Observable<T> {
+    return Observable.create((observer: Observer<T>) => {
+      let subscription: Subscription | null = null
+      let started = false
+      let released = false
+
+      const release = () => {
+        if (!released) {
+          released = true
+          this.active--
+          this.drain()
+        }
+      }
+
+      const item: QueuedRequest = {
+        url, priority,
+        host: getHost(url),
+        enqueuedAt: Date.now(),
+        start: () => {
+          started = true
+          this.active++
+          this.wait$.next({
+            url, priority,
+            host: item.host,
+            waitTime: Date.now() - item.enqueuedAt
+          })
+          subscription = request$.finally(release).subscribe(observer)
+        }
+      }
+
+      this.queues[priority].push(item)
+      this.drain()
+
+      return () => {
+        if (started) {
+          if (subscription) {
+            subscription.unsubscribe()
+          }
+          return
+        }
+        const queue = this.queues[priority]
+        const index = queue.indexOf(item)
+        if (index !== -1) {
+          queue.splice(index, 1)
+          this.emitState()
+        }
+      }
+    })
+  }
+
+  private drain() {
+    if (this.draining) {
+      return
+    }
+    this.draining = true
+    try {
+      let next: QueuedRequest | null
+      while ((next = this.dequeue())) {
+        next.start()
+      }
+    } finally {
+      this.draining = false
+    }
+    this.emitState()
+  }
+
+  /**
+   * 按优先级取出下一个可以发出的请求。被限流的 host 上的请求不阻塞其他 host 的请求。
+   */
+  private dequeue(): QueuedRequest | null {
+    const { maxConcurrent } = this.options
+    if (typeof maxConcurrent === 'number' && this.active >= maxConcurrent) {
+      return null
+    }
+
+    const now = Date.now()
+    const blocked = new Map<string, number>()
+
+    for (const priority of priorities) {
+      const queue = this.queues[priority]
+      for (let i = 0; i < queue.length; i++) {
+        const { host } = queue[i]
+        if (blocked.has(host)) {
+          continue
+        }
+        const bucket = this.getBucket(host, now)
+        if (!bucket || bucket.tryTake(now)) {
+          return queue.splice(i, 1)[0]
+        }
+        blocked.set(host, bucket.waitTime(now))
+      }
+    }
+
+    if (blocked.size) {
+      let waitTime = Infinity
+      blocked.forEach(time => waitTime = Math.min(waitTime, time))
+      this.drainLater(waitTime)
+    }
+    return null
+  }
+
+  private drainLater(waitTime: number) {
+    if (this.timer !== null) {
+      return
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.drain()
+    }, waitTime)
+    // 不阻止 Node.js 进程退出
+    if (typeof this.timer.unref === 'function') {
+      this.timer.unref()
+    }
+  }
+
+  private getBucket(host: string, now: number): TokenBucket | null {
+    const { rateLimit, rateLimitPerHost } = this.options
+    const limit = rateLimitPerHost && typeof rateLimitPerHost[host] !== 'undefined'
+      ? rateLimitPerHost[host]
+      : rateLimit
+    if (!limit) {
+      return null
+    }
+    let bucket = this.buckets.get(host)
+    if (!bucket) {
+      bucket = new TokenBucket(limit, now)
+      this.buckets.set(host, bucket)
+    }
+    return bucket
+  }
+
+  private emitState() {
+    const prev = this.state$.getValue()
+    const state = this.getState()
+    if (
+      prev.active !== state.active ||
+      priorities.some(priority => prev.queuedByPriority[priority] !== state.queuedByPriority[priority])
+    ) {
+      this.state$.next(state)
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import 'rxjs/add/observable/throw'
+import 'rxjs/add/observable/timer'
+import 'rxjs/add/operator/mergeMap'
+import 'rxjs/add/operator/retryWhen'
+import { Observable } from 'rxjs/Observable'
+import { AllowedHttpMethod, HttpErrorMessage } from './Http'
+
+export type RetryBackoff = 'exponential' | 'linear' | 'constant'
+
+export interface RetryOptions {
+  /**
+   * 首次请求失败后最多重试的次数，设置为 0 则不重试。默认为 2。
+   */
+  maxRetries?: number
+  /**
+   * 计算退避时间的基数（毫秒）。默认为 300。
+   */
+  delay?: number
+  /**
+   * 单次退避时间的上限（毫秒）。Retry-After 指定的时间超过它时不再重试，
+   * 以免在服务端要求的时间之前重新请求。默认为 10000。
+   */
+  maxDelay?: number
+  /**
+   * 退避曲线，第 n 次重试（n 从 0 开始）前等待：
+   * exponential: delay * 2^n；linear: delay * (n + 1)；constant: delay。
+   * 默认为 exponential。
+   */
+  backoff?: RetryBackoff
+  /**
+   * 为 true 时，在 [0, 退避时间] 区间内随机取实际等待时间（full jitter），
+   * 避免大量客户端在同一时刻重试。默认为 true。
+   */
+  jitter?: boolean
+  /**
+   * 可重试的响应状态码。网络错误（无状态码）总是可重试。
+   * 默认为 [408, 429, 502, 503, 504]。
+   */
+  statusCodes?: number[]
+  /**
+   * 可重试的请求方法。写操作不是幂等的，默认仅重试 get。
+   */
+  methods?: AllowedHttpMethod[]
+  /**
+   * 为 true 时，若响应带有 Retry-After，以其为准计算等待时间。默认为 true。
+   */
+  respectRetryAfter?: boolean
+}
+
+export const defaultRetryOptions = (): Required<RetryOptions> => ({
+  maxRetries: 2,
+  delay: 300,
+  maxDelay: 10000,
+  backoff: 'exponential',
+  jitter: true,
+  statusCodes: [408, 429, 502, 503, 504],
+  methods: ['get'],
+  respectRetryAfter: true
+})
+
+/**
+ * 获得请求失败时的响应状态码，网络错误等没有响应的情况返回 0。
+ */
+export const getErrorStatus = (err: HttpErrorMessage): number => {
+  const error: any = err && err.error
+  return error && typeof error.status === 'number' ? error.status : 0
+}
+
+/**
+ * 解析 Retry-After 响应头的值（秒数或 HTTP 日期），返回需要等待的毫秒数。
+ * 不存在或无法解析时返回 null。
+ */
+export const parseRetryAfterValue = (value: string | null | undefined, now: number = Date.now()): number | null => {
+  if (!value) {
+    return null
+  }
+
+  const seconds = Number(value)
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(value)
+  return isNaN(date) ? null : Math.max(0, date - now)
+}
+
+/**
+ * 获得失败请求的 Retry-After 响应头指定的等待毫秒数。
+ */
+export const parseRetryAfter = (err: HttpErrorMessage, now: number = Date.now()): number | null => {
+  const error: any = err && err.error
+  const headers = error && error.headers
+  return headers && typeof headers.get === 'function'
+    ? parseRetryAfterValue(headers.get('Retry-After'), now)
+    : null
+}
+
+export const isRetryable = (
+  method: AllowedHttpMethod,
+  err: HttpErrorMessage,
+  options: Required<RetryOptions>
+): boolean => {
+  if (options.methods.indexOf(method) === -1) {
+    return false
+  }
+  const status = getErrorStatus(err)
+  return status === 0 || options.statusCodes.indexOf(status) !== -1
+}
+
+/**
+ * 计算第 attempt 次重试前等待的毫秒数。Retry-After 要求等待的时间超过 maxDelay 时返回 null，即不重试。
+ */
+export const getRetryDelay = (
+  attempt: number,
+  err: HttpErrorMessage,
+  options: Required<RetryOptions>
+): number | null => {
+  if (options.respectRetryAfter) {
+    const retryAfter = parseRetryAfter(err)
+    if (retryAfter !== null) {
+      return retryAfter <= options.maxDelay ? retryAfter : null
+    }
+  }
+
+  let backoff: number
+  switch (options.backoff) {
+    case 'constant':
+      backoff = options.delay
+      break
+    case 'linear':
+      backoff = options.delay * (attempt + 1)
+      break
+    default:
+      backoff = options.delay * Math.pow(2, attempt)
+      break
+  }
+  backoff = Math.min(backoff, options.maxDelay)
+
+  return options.jitter ? Math.floor(Math.random() * backoff) : backoff
+}
+
+/**
+ * 合并重试策略。传入 false 表示不重试，返回 null。
+ */
+export const normRetryOptions = (
+  ...options: Array<RetryOptions | false | undefined>
+): Required<RetryOptions> | null => {
+  let result: Required<RetryOptions> | null = defaultRetryOptions()
+  options.forEach(option => {
+    if (option === false) {
+      result = null
+    } else if (option) {
+      result = { ...(result || defaultRetryOptions()), ...option }
+    }
+  })
+  return result
+}
+
+/**
+ * 请求失败时，根据重试策略重新订阅 request$（即重新发送请求）。
+ * request$ 须以 HttpErrorMessage 报错。
+ */
+export const retryOnFailure = <T>(
+  request$: Observable<T>,
+  method: AllowedHttpMethod,
+  retry?: RetryOptions | false
+): Observable<T> => {
+  const options = normRetryOptions(retry)
+  if (!options || options.maxRetries <= 0 || options.methods.indexOf(method) === -1) {
+    return request$
+  }
+
+  return request$.retryWhen(errors$ => errors$.mergeMap((err: HttpErrorMessage, attempt: number) => {
+    const delay = attempt < options.maxRetries && isRetryable(method, err, options)
+      ? getRetryDelay(attempt, err, options)
+      : null
+    return delay === null ? Observable.throw(err) : Observable.timer(delay)
+  }))
+}
@@ -0,0 +1,199 @@
+import { AllowedHttpMethod } from './Http'
+import { parseRetryAfterValue } from './Retry'
+
+export type SDKErrorCode =
+  'NETWORK_ERROR' |
+  'TIMEOUT' |
+  'AUTH_ERROR' |
+  'VALIDATION_ERROR' |
+  'NOT_FOUND' |
+  'RATE_LIMITED' |
+  'SERVER_ERROR' |
+  'HTTP_ERROR'
+
+/**
+ * Teambition API 返回的错误响应体。
+ */
+export interface TeambitionErrorBody {
+  name?: string
+  message?: string
+  data?: any
+}
+
+export interface SDKErrorRequest {
+  method: AllowedHttpMethod
+  url: string
+  body?: any
+}
+
+export interface SDKErrorInit {
+  request: SDKErrorRequest
+  /**
+   * 没有获得响应时为 0。
+   */
+  status?: number
+  statusText?: string
+  headers?: Headers | null
+  /**
+   * 响应体，能被解析为 JSON 时为解析后的对象，否则为原始文本。
+   */
+  body?: TeambitionErrorBody | string | null
+  /**
+   * 导致该错误的底层错误，如 fetch 抛出的 TypeError。
+   */
+  cause?: any
+}
+
+// 部分环境（如 node 中的 Response）不会根据状态码填充 statusText
+const defaultStatusText: { [status: number]: string } = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  408: 'Request Timeout',
+  409: 'Conflict',
+  422: 'Unprocessable Entity',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout'
+}
+
+/**
+ * SDK 请求失败时的错误。根据失败原因细分为以下子类，可用 instanceof
+ * 或 code 字段区分。
+ */
+export class SDKError extends Error {
+  name = 'SDKError'
+  readonly code: SDKErrorCode = 'HTTP_ERROR'
+  readonly status: number
+  readonly statusText: string
+  readonly headers: Headers | null
+  readonly body: TeambitionErrorBody | string | null
+  readonly request: SDKErrorRequest
+  readonly cause: any
+
+  constructor(init: SDKErrorInit) {
+    super()
+    // 编译到 ES5 时，需要手动修正原型链，instanceof 才能正确工作
+    Object.setPrototypeOf(this, new.target.prototype)
+
+    this.status = init.status || 0
+    this.statusText = init.statusText || defaultStatusText[this.status] || ''
+    this.headers = init.headers || null
+    this.body = typeof init.body === 'undefined' ? null : init.body
+    this.request = init.request
+    this.cause = init.cause
+
+    const errorBody = this.body as TeambitionErrorBody | null
+    const reason = errorBody && typeof errorBody === 'object' && errorBody.message
+      ? errorBody.message
+      : `${this.status} ${this.statusText}`.trim()
+    this.message = `${reason} (${init.request.method.toUpperCase()} ${init.request.url})`
+  }
+
+  /**
+   * 响应体中 Teambition 定义的错误名，如 'InvalidParams'。
+   */
+  get errorName(): string | undefined {
+    const errorBody = this.body
+    return errorBody && typeof errorBody === 'object' ? errorBody.name : undefined
+  }
+
+  /**
+   * 响应体中的附加数据。
+   */
+  get data(): any {
+    const errorBody = this.body
+    return errorBody && typeof errorBody === 'object' ? errorBody.data : undefined
+  }
+}
+
+export class NetworkError extends SDKError {
+  name = 'NetworkError'
+  readonly code: SDKErrorCode = 'NETWORK_ERROR'
+}
+
+export class TimeoutError extends SDKError {
+  name = 'TimeoutError'
+  readonly code: SDKErrorCode = 'TIMEOUT'
+}
+
+/**
+ * 401、403
+ */
+export class AuthError extends SDKError {
+  name = 'AuthError'
+  readonly code: SDKErrorCode = 'AUTH_ERROR'
+}
+
+/**
+ * 400、422
+ */
+export class ValidationError extends SDKError {
+  name = 'ValidationError'
+  readonly code: SDKErrorCode = 'VALIDATION_ERROR'
+}
+
+export class NotFoundError extends SDKError {
+  name = 'NotFoundError'
+  readonly code: SDKErrorCode = 'NOT_FOUND'
+}
+
+export class RateLimitError extends SDKError {
+  name = 'RateLimitError'
+  readonly code: SDKErrorCode = 'RATE_LIMITED'
+
+  /**
+   * 由 Retry-After 响应头指定的等待时间（毫秒），没有指定时为 null。
+   */
+  get retryAfter(): number | null {
+    return parseRetryAfterValue(this.headers && this.headers.get('Retry-After'))
+  }
+}
+
+/**
+ * 5xx
+ */
+export class ServerError extends SDKError {
+  name = 'ServerError'
+  readonly code: SDKErrorCode = 'SERVER_ERROR'
+}
+
+/**
+ * 根据响应状态码创建相应类型的 SDKError。
+ */
+export const createSDKError = (init: SDKErrorInit): SDKError => {
+  const status = init.status || 0
+  switch (true) {
+    case status === 0:
+      return new NetworkError(init)
+    case status === 401 || status === 403:
+      return new AuthError(init)
+    case status === 400 || status === 422:
+      return new ValidationError(init)
+    case status === 404:
+      return new NotFoundError(init)
+    case status === 429:
+      return new RateLimitError(init)
+    case status >= 500:
+      return new ServerError(init)
+    default:
+      return new SDKError(init)
+  }
+}
+
+/**
+ * 解析错误响应体，能被解析为 JSON 时返回解析后的对象，否则返回原始文本。
+ */
+export const parseErrorBody = (text: string | null | undefined): TeambitionErrorBody | string | null => {
+  if (!text) {
+    return null
+  }
+  try {
+    return JSON.parse(text)
+  } catch (e) {
+    return text
+  }
+}
@@ -0,0 +1,149 @@
+import { Observable } from 'rxjs/Observable'
+import { Observer } from 'rxjs/Observer'
+import { AllowedHttpMethod } from './Http'
+import { headers2Object } from '../utils/index'
+
+export interface TransportRequest {
+  method: AllowedHttpMethod
+  url: string
+  headers: { [header: string]: string }
+  /**
+   * 已序列化的请求体；二进制数据（如 Blob、Uint8Array，Node.js 的 Buffer 也是 Uint8Array）不做序列化。
+   */
+  body?: string | Blob | Uint8Array
+  /**
+   * 对应 fetch 的 credentials 选项，浏览器以外的环境一般可以忽略。
+   */
+  credentials?: string
+  /**
+   * 响应体的类型，默认为 text。binary 用于下载文件等二进制数据。
+   */
+  responseType?: 'text' | 'binary'
+}
+
+export interface TransportResponse {
+  status: number
+  statusText: string
+  headers: { [header: string]: string }
+  /**
+   * responseType 为 binary 时为 Blob（浏览器）或 Uint8Array（Node.js 中为 Buffer），否则为文本。
+   */
+  body: string | Blob | Uint8Array
+}
+
+/**
+ * 发出请求的底层实现，可通过 SDKFetch 的构造函数或 setTransport 指定，
+ * 未指定时在浏览器中使用 XMLHttpRequest。
+ * 返回的 Observable 被取消订阅时应中止请求；未能获得响应时以任意错误报错，
+ * 该错误会被转换为 NetworkError。非 2xx 的响应应正常推送，而不是报错。
+ */
+export type Transport = (request: TransportRequest) => Observable<TransportResponse>
+
+/**
+ * 基于 fetch 的 Transport，用于未指定 Transport 时下载二进制数据。node-fetch 的响应没有 blob，使用 buffer。
+ */
+/* istanbul ignore next */
+export const fetchTransport: Transport = (request: TransportRequest) =>
+  Observable.create((observer: Observer<TransportResponse>) => {
+    const controller = typeof AbortController !== 'undefined' ? new AbortController() : null
+    let finished = false
+    const options: any = { method: request.method, headers: request.headers, credentials: request.credentials }
+    if (typeof request.body !== 'undefined') {
+      options.body = request.body
+    }
+    if (controller) {
+      options.signal = controller.signal
+    }
+    const readBody = (response: any): Promise<string | Blob | Uint8Array> => {
+      if (request.responseType !== 'binary') {
+        return response.text()
+      }
+      return typeof response.blob === 'function' ? response.blob() : response.buffer()
+    }
+    fetch(request.url, options)
+      .then((response: any) => readBody(response)
+        .then(body => ({
+          status: response.status,
+          statusText: response.statusText,
+          headers: headers2Object(response.headers) as { [header: string]: string },
+          body
+        }))
+      )
+      .then((response: TransportResponse) => {
+        if (!finished) {
+          finished = true
+          observer.next(response)
+          observer.complete()
+        }
+      }, (e: any) => {
+        if (!finished) {
+          finished = true
+          observer.error(e)
+        }
+      })
+    return () => {
+      if (!finished && controller) {
+        controller.abort()
+      }
+      finished = true
+    }
+  })
+
+// 没有 Headers 的环境中使用的替代实现，名称统一为小写
+class PlainHeaders implements Headers {
+
+  private values_: { [header: string]: string } = {}
+
+  constructor(headers: { [header: string]: string }) {
+    Object.keys(headers).forEach(key => this.set(key, headers[key]))
+  }
+
+  append(name: string, value: string) {
+    const current = this.get(name)
+    this.set(name, current === null ? value : `${current}, ${value}`)
+  }
+
+  delete(name: string) {
+    delete this.values_[name.toLowerCase()]
+  }
+
+  get(name: string): string | null {
+    return this.has(name) ? this.values_[name.toLowerCase()] : null
+  }
+
+  has(name: string) {
+    return Object.prototype.hasOwnProperty.call(this.values_, name.toLowerCase())
+  }
+
+  set(name: string, value: string) {
+    this.values_[name.toLowerCase()] = String(value)
+  }
+
+  forEach(callback: Function, thisArg?: any) {
+    Object.keys(this.values_).forEach(key => callback.call(thisArg, this.values_[key], key, this))
+  }
+
+  entries(): IterableIterator<[string, string]> {
+    return Object.keys(this.values_).map((key): [string, string] => [key, this.values_[key]])[Symbol.iterator]()
+  }
+
+  keys(): IterableIterator<string> {
+    return Object.keys(this.values_)[Symbol.iterator]()
+  }
+
+  values(): IterableIterator<string> {
+    return Object.keys(this.values_).map(key => this.values_[key])[Symbol.iterator]()
+  }
+
+  [Symbol.iterator]() {
+    return this.entries()
+  }
+}
+
+/**
+ * 将 headers 对象转换为 Headers，供 SDKError 使用；没有 Headers 的环境（如较早版本的 Node.js）
+ * 中使用替代实现。
+ */
+export const toHeaders = (headers: { [header: string]: string }): Headers => {
+  return typeof Headers !== 'undefined' ? new Headers(headers) : new PlainHeaders(headers)
+}
@@ -1,2 +1,13 @@
 export * from './Net'
 export * from './Http'
+export * from './Retry'
+export * from './FetchInterceptors'
+export * from './SDKError'
+export * from './RequestScheduler'
+export * from './GetBatcher'
+export * from './OfflineQueue'
+export * from './RequestCacheStore'
+export * from './ConditionalCache'
+export * from './Transport'
+export * from './Paginator'
+export * from './Metrics'
@@ -1,6 +1,11 @@
+import 'rxjs/add/observable/merge'
+import 'rxjs/add/operator/do'
+import 'rxjs/add/operator/mapTo'
 import { Observable } from 'rxjs/Observable'
 import { Database } from 'reactivedb'
-import { Net } from './Net'
+import {
+  Net, CacheInvalidation, OfflineQueue, OfflineStore, RequestCacheStore, ApiResult, Paginator, PaginatorOptions, RequestMetric
+} from './Net'
 import { forEach } from './utils'
 import { SDKFetch } from './SDKFetch'
 import * as socket from './sockets'
@@ -22,6 +27,15 @@ export class SDK {
   socketClient: socket.Client
   database: Database | undefined
   socketProxy: socket.Proxy
+  socketEvents: socket.Events
+  offlineQueue: OfflineQueue | undefined
+
+  /**
+   * 请求及请求缓存的指标记录，见 RequestMetric。
+   */
+  get metrics$(): Observable<RequestMetric> {
+    return Observable.merge(this.fetch.metrics$, this.net.metrics$)
+  }
 
   lift: typeof Net.prototype.lift = (ApiResult: any): any => {
     return this.net.lift(ApiResult)
@@ -34,6 +48,7 @@ export class SDK {
       socket.mapMsgTypeToTable
     )
     this.socketProxy = this.socketClient.proxy
+    this.socketEvents = this.socketClient.events
     this.socketClient.interceptors.append(socketInterceptor.redirectLike)
   }
 
@@ -49,4 +64,54 @@ export class SDK {
     return this.net.persist(this.database)
   }
 
+  /**
+   * 清除匹配的请求缓存，令之后及仍在订阅中的查询重新请求；指定 tableName 与 where 时，
+   * 同时从 ReactiveDB 中删除满足条件的数据。
+   */
+  invalidate(options?: CacheInvalidation): Observable<void> {
+    return this.net.invalidate(options)
+  }
+
+  /**
+   * 将请求缓存保存到 store，并恢复上一次会话保存的请求缓存，使 ReactiveDB 持久化时，
+   * 重新加载页面后可以直接从 ReactiveDB 返回数据（或返回后在后台重新验证）。
+   * 表结构或 version 变化后，保存的请求缓存被丢弃。
+   * 开启条件请求（fetch.setConditionalRequests）时，重新验证恢复的缓存附带保存的 ETag/Last-Modified，
+   * 响应为 304 时沿用 ReactiveDB 中的数据。
+   */
+  persistRequestCache(store: RequestCacheStore, version?: string): Observable<void> {
+    return this.net.persistRequestCache(store, version)
+      .do(() => this.fetch.restoreResponseValidators(this.net.getRestoredValidators()))
+  }
+
+  /**
+   * 创建分页加载器，每页的 ApiResult 由 options.getResult 根据页码或游标生成。
+   */
+  paginate<T>(options: PaginatorOptions<T>): Paginator<T> {
+    return new Paginator<T>(result => this.net.lift(result as ApiResult<T, any>), options)
+  }
+
+  /**
+   * 启用离线写队列：离线时，支持离线的写操作（如 createPost、updatePost）
+   * 会被持久化到 store 并立即写入本地数据库，重新上线后按顺序重放。
+   * 除浏览器的 online 事件外，遇到网络错误后队列也会以退避的间隔自行尝试重新上线。
+   * 返回的 Observable 完成时，上一次会话未完成的写请求已恢复，在线时随即开始重放。
+   */
+  enableOfflineQueue(store?: OfflineStore): Observable<void> {
+    const queue = new OfflineQueue(
+      ({ request }) => this.fetch[request.method](request.path, request.body),
+      store
+    )
+    this.offlineQueue = queue
+    this.net.setOfflineQueue(queue)
+
+    /* istanbul ignore if */
+    if (typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+      window.addEventListener('online', () => queue.setOnline(true))
+      window.addEventListener('offline', () => queue.setOnline(false))
+    }
+
+    return queue.restore().mapTo(void 0)
+  }
+
 }
@@ -1,14 +1,34 @@
 import 'rxjs/add/observable/defer'
+import 'rxjs/add/observable/from'
+import 'rxjs/add/observable/of'
+import 'rxjs/add/observable/throw'
+import 'rxjs/add/operator/do'
+import 'rxjs/add/operator/take'
 import 'rxjs/add/operator/catch'
 import 'rxjs/add/operator/map'
 import 'rxjs/add/operator/publishReplay'
 import 'rxjs/add/operator/finally'
 import { Observable } from 'rxjs/Observable'
-import { Http, HttpResponseWithHeaders, getHttpWithResponseHeaders } from './Net/Http'
+import { Subject } from 'rxjs/Subject'
+import {
+  AllowedHttpMethod, Http, HttpError$, HttpErrorMessage, HttpResponseWithHeaders, getHttpWithResponseHeaders
+} from './Net/Http'
+import { ConditionalCache, StoredValidator } from './Net/ConditionalCache'
+import { FetchInterceptors } from './Net/FetchInterceptors'
+import { RequestMetric, createTraceparent, toPathTemplate } from './Net/Metrics'
+import { BatchEndpoint, GetBatcher } from './Net/GetBatcher'
+import { RequestPriority, RequestScheduler } from './Net/RequestScheduler'
+import { RetryOptions, getErrorStatus } from './Net/Retry'
+import { Transport, fetchTransport } from './Net/Transport'
 import { UserMe } from './schemas/UserMe'
-import { forEach, isEmptyObject } from './utils'
+import { forEach } from './utils'
 import { SDKLogger } from './utils/Logger'
 
+/**
+ * 用于获取新 OAuth2 token 的函数，在请求因 token 失效返回 401 时被调用。
+ */
+export type TokenProvider = () => Observable<string> | PromiseLike<string>
+
 export type SDKFetchOptions = {
   apiHost?: string,
   token?: string,
@@ -38,16 +58,58 @@ export type SDKFetchOptions = {
    * response headers。默认为 false，仅返回 response body。
    */
   includeHeaders?: boolean,
+  /**
+   * 请求失败时的重试策略，会与 SDKFetch 对象当前的重试策略合并。
+   * 设置为 false 则该请求不重试。默认仅对 get 请求的网络错误
+   * 及 408/429/502/503/504 响应进行重试。
+   */
+  retry?: RetryOptions | false,
+  /**
+   * 请求超时时间（毫秒），未设置时使用 SDKFetch 对象当前的超时时间。
+   * 超时的请求会被中止，并以 kind 为 'timeout' 的 HttpErrorMessage 报错。
+   */
+  timeout?: number,
+  /**
+   * 请求在 SDKFetch 调度队列中的优先级。默认 get 请求为 'normal'，
+   * post/put/delete 为 'high'。
+   */
+  priority?: RequestPriority,
 }
 
 const getUnnamedOptions = (options: SDKFetchOptions): {} => {
   const {
-    apiHost, token, headers, wrapped, includeHeaders,
+    apiHost, token, headers, wrapped, includeHeaders, retry, timeout, priority,
     ...unnamed
   } = options
   return unnamed
 }
 
+const getRetryPerRequest = (
+  retry: RetryOptions | false | undefined,
+  retryPerRequest: RetryOptions | false | undefined
+): RetryOptions | false | undefined => {
+  if (typeof retryPerRequest === 'undefined') {
+    return retry
+  }
+  if (retryPerRequest === false) {
+    return false
+  }
+  return { ...(retry || {}), ...retryPerRequest }
+}
+
+const isResponseWithHeaders = (response: any): response is HttpResponseWithHeaders<any> =>
+  response !== null && typeof response === 'object' && 'headers' in response && 'body' in response
+
+/**
+ * 支持通过 _ids 批量获取的实体类型（即 getOne 的 type 参数）。
+ */
+export const defaultBatchEndpoints = (): { [type: string]: BatchEndpoint } => ({
+  tasks: { path: 'tasks' },
+  posts: { path: 'posts' },
+  works: { path: 'works' },
+  events: { path: 'events' }
+})
+
 export const defaultSDKFetchHeaders = () => ({
   'Accept': 'application/json',
   'Content-Type': 'application/json',
@@ -60,11 +122,87 @@ export class SDKFetch {
     private apiHost: string = 'https://www.teambition.com/api',
     private token: string = '',
     private headers: {} = defaultSDKFetchHeaders(),
-    private options: {} = {}
-  ) {}
+    private options: {} = {},
+    private transport?: Transport
+  ) {
+    // 全局的 HttpError$ 仍然推送所有 SDKFetch 对象的错误
+    this.errorAdapter$.subscribe(HttpError$ as Subject<HttpErrorMessage>)
+    if (!SDKFetch.defaultInstance) {
+      SDKFetch.defaultInstance = this
+    }
+  }
+
+  private static defaultInstance: SDKFetch | undefined
+  private static defaultFetchTail: string | undefined | 0
+
+  /**
+   * @deprecated 进行中的请求已改为各个 SDKFetch 对象分别保存，这里返回第一个创建的 SDKFetch 对象的记录。
+   */
+  static get FetchStack(): Map<string, Observable<any>> {
+    return SDKFetch.defaultInstance ? SDKFetch.defaultInstance.fetchStack : new Map()
+  }
+
+  /**
+   * @deprecated 请使用 setFetchTail。设置后，没有通过 setFetchTail 设置 tail 的 SDKFetch 对象使用该值。
+   */
+  static get fetchTail(): string | undefined | 0 {
+    return SDKFetch.defaultFetchTail
+  }
+
+  static set fetchTail(tail: string | undefined | 0) {
+    SDKFetch.defaultFetchTail = tail
+  }
+
+  // 进行中的 get 请求，相同 url 的请求共享响应；各个 SDKFetch 对象（即各个用户）之间不共享
+  private fetchStack = new Map<string, Observable<any>>()
+  private fetchTail: string | undefined | 0
+  private errorAdapter$ = new Subject<HttpErrorMessage>()
+
+  /**
+   * 该 SDKFetch 对象的请求在重试（及刷新 token）后仍然失败时，推送错误。
+   * 在同一进程中代表多个用户发出请求时，应订阅它而不是全局的 HttpError$。
+   */
+  public httpError$: Observable<HttpErrorMessage> = this.errorAdapter$.asObservable()
+
+  private retry: RetryOptions | false | undefined
+  private timeout: number | undefined
+  private tokenProvider: TokenProvider | undefined
+  private tokenRefresh$: Observable<string> | null = null
+  private batching = false
+  private conditionalRequests = false
+  private tracing = false
+  private conditionalCache = new ConditionalCache()
+  private batchEndpoints = defaultBatchEndpoints()
+  private batcher = new GetBatcher(
+    (endpoint, ids, query) => this.get<any[]>(endpoint.path, {
+      ...query,
+      [endpoint.idsField || '_ids']: ids.join(',')
+    }),
+    (type, id, query) => this.get(`${type}/${id}`, query)
+  )
+
+  /**
+   * 请求拦截器序列。如果需要在请求发出前修改请求内容（如添加追踪用的
+   * headers、重新签名），或在获得响应后对结果、错误进行变换，可以在这里
+   * 添加相应拦截器。
+   */
+  public interceptors = new FetchInterceptors()
+
+  /**
+   * 请求调度器，可通过 configure 设置最大并发数、各个 host 的限流，
+   * 并通过 state$、wait$ 观察队列状况。拦截器短路的请求不经过调度器。
+   */
+  public scheduler = new RequestScheduler()
+
+  /**
+   * 每个请求完成或失败后推送一条指标记录（拦截器短路的请求除外）。
+   */
+  public metrics$ = new Subject<RequestMetric>()
 
-  static FetchStack = new Map<string, Observable<any>>()
-  static fetchTail: string | undefined | 0
+  /**
+   * 通过 tokenProvider 刷新 token 成功时推送新的 token，SocketClient 据此更新 socket 的认证。
+   */
+  public refreshedToken$ = new Subject<string>()
 
   get<T>(path: string, query: any, options: SDKFetchOptions & {
     wrapped: true, includeHeaders: true
@@ -82,30 +220,51 @@ export class SDKFetch {
 
   get<T>(path: string, query?: any, options: SDKFetchOptions = {}) {
     const url = this.urlWithPath(path, options.apiHost)
-    const urlWithQuery = query ? SDKFetch.buildQuery(url, query) : url
-    const http = options.includeHeaders ? getHttpWithResponseHeaders<T>() : new Http<T>()
+    const requestUrl = query ? SDKFetch.buildQuery(url, query) : url
+    const conditional = this.conditionalRequests && !options.wrapped
+    const http = this.createHttp<T>(options.includeHeaders || conditional)
     let dist: Observable<T> | Observable<HttpResponseWithHeaders<T>>
 
-    this.setOptionsPerRequest(http, options)
+    this.setOptionsPerRequest(http, options, path)
 
-    if (!SDKFetch.FetchStack.has(urlWithQuery)) {
-      const tail = SDKFetch.fetchTail || Date.now()
-      const urlWithTail = query && !isEmptyObject(query)
-        ? `${ urlWithQuery }&_=${ tail }`
-        : `${ urlWithQuery }?_=${ tail }`
-      dist = Observable.defer(() => http.setUrl(urlWithTail).get()
-        .send()
-        .publishReplay<any>(1)
-        .refCount()
-      )
-        .finally(() => {
-          SDKFetch.FetchStack.delete(urlWithQuery)
-        })
+    const request = this.interceptors.applyRequest({ method: 'get', url: requestUrl, headers: http.getHeaders() })
 
-      SDKFetch.FetchStack.set(urlWithQuery, dist)
-    }
+    if (request instanceof Observable) {
+      dist = request
+    } else {
+      const urlWithQuery = request.url
+      http.setOpts({ headers: request.headers })
+
+      if (!this.fetchStack.has(urlWithQuery)) {
+        const tail = this.fetchTail || SDKFetch.defaultFetchTail || Date.now()
+        const urlWithTail = urlWithQuery.indexOf('?') !== -1
+          ? `${ urlWithQuery }&_=${ tail }`
+          : `${ urlWithQuery }?_=${ tail }`
+        const send = () => {
+          if (!conditional) {
+            return http.setUrl(urlWithTail).get().send()
+          }
+          // 发出时才附加条件请求 headers，重新订阅（如缓存失效后重新请求）时使用最新的验证信息
+          http.setOpts({ headers: { ...request.headers, ...this.conditionalCache.getRequestHeaders(requestUrl) } })
+          const response$ = http.setUrl(urlWithTail).get().send()
+          return this.withConditionalCache(response$ as any, requestUrl, options.includeHeaders)
+        }
+        dist = Observable.defer(() => this.interceptors.applyResponse<any>(
+          this.scheduler.schedule<any>(send(), urlWithTail, options.priority),
+          request
+        )
+          .publishReplay<any>(1)
+          .refCount()
+        )
+          .finally(() => {
+            this.fetchStack.delete(urlWithQuery)
+          })
+
+        this.fetchStack.set(urlWithQuery, dist)
+      }
 
-    dist = SDKFetch.FetchStack.get(urlWithQuery)!
+      dist = this.fetchStack.get(urlWithQuery)!
+    }
 
     if (options.wrapped) {
       http['request'] = dist
@@ -115,6 +274,76 @@ export class SDKFetch {
     }
   }
 
+  /**
+   * 获取单个实体，即 GET {type}/{id}。开启批量获取（setBatching）后，同一 tick 内
+   * 对同一类型、相同 query 的调用会合并为一次批量请求，如 GET tasks?_ids=a,b,c；
+   * 没有批量接口的类型仍逐个请求。
+   */
+  getOne<T>(type: string, id: String, query?: any): Observable<T> {
+    const endpoint = this.batchEndpoints[type]
+    if (!this.batching || !endpoint) {
+      return this.get<T>(`${type}/${id}`, query)
+    }
+    return this.batcher.load<T>(SDKFetch.buildQuery(type, query), endpoint, type, id as string, query)
+  }
+
+  /**
+   * 以二进制获取完整 url 的资源（如文件的下载地址），结果中 body 在浏览器中为 Blob，Node.js 中为 Buffer。
+   * 与其它请求一样经过拦截器、调度器、重试、超时及指标记录；只附带 options.headers，
+   * 不附带 token 及默认的 headers，也不与相同 url 的请求合并（Range 不同的请求 url 相同）。
+   * 未设置 Transport 时使用 fetch。
+   */
+  getBinary(url: string, options: SDKFetchOptions = {}): Observable<HttpResponseWithHeaders<Blob | Uint8Array>> {
+    const http = getHttpWithResponseHeaders<Blob | Uint8Array>(undefined, this.errorAdapter$)
+    const headers: { [header: string]: any } = { ...options.headers }
+    delete headers.merge
+    const path = url.replace(/^[a-z]+:\/\/[^/]+\/?/i, '')
+
+    http.setHeaders(this.tracing ? { ...headers, traceparent: createTraceparent() } : headers)
+      .setOpts({ responseType: 'binary' })
+      .setRetry(getRetryPerRequest(this.retry, options.retry))
+      .setTimeout(typeof options.timeout !== 'undefined' ? options.timeout : this.timeout)
+      .setTransport(this.transport || fetchTransport)
+      .setMetrics({ path: toPathTemplate(path), report: metric => this.metrics$.next(metric) })
+
+    const request = this.interceptors.applyRequest({ method: 'get', url, headers: http.getHeaders() })
+    if (request instanceof Observable) {
+      return request
+    }
+    http.setUrl(request.url).setOpts({ headers: request.headers })
+    return this.interceptors.applyResponse(
+      this.scheduler.schedule(http.get().send(), request.url, options.priority),
+      request
+    )
+  }
+
+  /**
+   * 记录响应的 ETag/Last-Modified，响应为 304 时返回之前缓存的响应。
+   */
+  private withConditionalCache(
+    response$: Observable<HttpResponseWithHeaders<any>>,
+    url: string,
+    includeHeaders?: boolean
+  ): Observable<any> {
+    return response$
+      .do(response => {
+        if (isResponseWithHeaders(response)) {
+          this.conditionalCache.update(url, response.headers, response.body)
+        }
+      })
+      .catch((err: HttpErrorMessage) => {
+        const cached = getErrorStatus(err) === 304 ? this.conditionalCache.getNotModified(url) : undefined
+        return cached ? Observable.of(cached) : Observable.throw(err)
+      })
+      .map(response => includeHeaders || !isResponseWithHeaders(response) ? response : response.body)
+  }
+
+  private createHttp<T>(includeHeaders?: boolean): Http<T> | Http<HttpResponseWithHeaders<T>> {
+    return includeHeaders
+      ? getHttpWithResponseHeaders<T>(undefined, this.errorAdapter$)
+      : new Http<T>(undefined, this.errorAdapter$)
+  }
+
   private urlWithPath(path: string, apiHost?: string): string {
     const host = apiHost || this.apiHost
     return `${host}/${path}`
@@ -135,14 +364,14 @@ export class SDKFetch {
   post<T>(path: string, body?: any, options?: SDKFetchOptions): Observable<T>
 
   post<T>(path: string, body?: any, options: SDKFetchOptions = {}) {
-    const http = options.includeHeaders ? getHttpWithResponseHeaders<T>() : new Http<T>()
+    const http = this.createHttp<T>(options.includeHeaders)
     const url = this.urlWithPath(path, options.apiHost)
 
-    this.setOptionsPerRequest(http, options)
+    this.setOptionsPerRequest(http, options, path)
 
-    http.setUrl(url).post(body)
+    const request$ = this.sendWithInterceptors(http, 'post', url, body, options.priority)
 
-    return options.wrapped ? http : http['request']
+    return options.wrapped ? http : request$
   }
 
   put<T>(path: string, body: any, options: SDKFetchOptions & {
@@ -160,14 +389,14 @@ export class SDKFetch {
   put<T>(path: string, body?: any, options?: SDKFetchOptions): Observable<T>
 
   put<T>(path: string, body?: any, options: SDKFetchOptions = {}) {
-    const http = options.includeHeaders ? getHttpWithResponseHeaders<T>() : new Http<T>()
+    const http = this.createHttp<T>(options.includeHeaders)
     const url = this.urlWithPath(path, options.apiHost)
 
-    this.setOptionsPerRequest(http, options)
+    this.setOptionsPerRequest(http, options, path)
 
-    http.setUrl(url).put(body)
+    const request$ = this.sendWithInterceptors(http, 'put', url, body, options.priority)
 
-    return options.wrapped ? http : http['request']
+    return options.wrapped ? http : request$
   }
 
   delete<T>(path: string, body: any, options: SDKFetchOptions & {
@@ -185,14 +414,41 @@ export class SDKFetch {
   delete<T>(path: string, body?: any, options?: SDKFetchOptions): Observable<T>
 
   delete<T>(path: string, body?: any, options: SDKFetchOptions = {}) {
-    const http = options.includeHeaders ? getHttpWithResponseHeaders<T>() : new Http<T>()
+    const http = this.createHttp<T>(options.includeHeaders)
     const url = this.urlWithPath(path, options.apiHost)
 
-    this.setOptionsPerRequest(http, options)
+    this.setOptionsPerRequest(http, options, path)
+
+    const request$ = this.sendWithInterceptors(http, 'delete', url, body, options.priority)
 
-    http.setUrl(url).delete(body)
+    return options.wrapped ? http : request$
+  }
+
+  private sendWithInterceptors(
+    http: Http<any>,
+    method: Exclude<AllowedHttpMethod, 'get'>,
+    url: string,
+    body?: any,
+    priority: RequestPriority = 'high'
+  ): Observable<any> {
+    const request = this.interceptors.applyRequest({
+      method, url, body,
+      headers: http.getHeaders()
+    })
+
+    let request$: Observable<any>
+    if (request instanceof Observable) {
+      request$ = request
+    } else {
+      http.setUrl(request.url).setOpts({ headers: request.headers })
+      request$ = this.interceptors.applyResponse(
+        this.scheduler.schedule(http[method](request.body).send(), request.url, priority),
+        request
+      )
+    }
 
-    return options.wrapped ? http : http['request']
+    http['request'] = request$
+    return request$
   }
 
   setAPIHost(host: string) {
@@ -209,6 +465,18 @@ export class SDKFetch {
     return this
   }
 
+  /**
+   * 设置 get 请求附加的 _ 参数（默认为当前时间戳，用于避免浏览器缓存），主要用于测试中固定请求的 url。
+   */
+  setFetchTail(tail: string | undefined | 0) {
+    this.fetchTail = tail
+    return this
+  }
+
+  getFetchTail() {
+    return this.fetchTail
+  }
+
   getHeaders() {
     return { ...this.headers }
   }
@@ -222,6 +490,48 @@ export class SDKFetch {
     return this.token
   }
 
+  /**
+   * 设置 token 提供者。设置后，使用 SDKFetch 对象自身 token 的请求返回 401 时，
+   * 会通过它获取新的 token，设置到 SDKFetch 对象上，并重新发送请求。
+   */
+  setTokenProvider(provider: TokenProvider | undefined) {
+    this.tokenProvider = provider
+    return this
+  }
+
+  getTokenProvider() {
+    return this.tokenProvider
+  }
+
+  /**
+   * 通过 token 提供者获取新的 token，并设置到 SDKFetch 对象上。同时发生的
+   * 多次调用共享同一次获取。若传入的 staleToken 已不是当前 token（即已经
+   * 被刷新过），直接返回当前 token。
+   */
+  refreshToken(staleToken: string = this.token): Observable<string> {
+    if (!this.tokenProvider) {
+      return Observable.throw(new Error('refresh token failed, no tokenProvider'))
+    }
+    if (staleToken !== this.token && this.token) {
+      return Observable.of(this.token)
+    }
+    if (!this.tokenRefresh$) {
+      const provider = this.tokenProvider
+      this.tokenRefresh$ = Observable.defer(() => Observable.from(provider()))
+        .take(1)
+        .do(token => {
+          this.setToken(token)
+          this.refreshedToken$.next(token)
+        })
+        .finally(() => {
+          this.tokenRefresh$ = null
+        })
+        .publishReplay(1)
+        .refCount()
+    }
+    return this.tokenRefresh$
+  }
+
   setOptions(options: {}) {
     this.options = options
     return this
@@ -231,9 +541,101 @@ export class SDKFetch {
     return { ...this.options }
   }
 
+  setRetry(retry: RetryOptions | false | undefined) {
+    this.retry = retry
+    return this
+  }
+
+  getRetry() {
+    return this.retry ? { ...this.retry } : this.retry
+  }
+
+  setBatching(batching: boolean) {
+    this.batching = batching
+    return this
+  }
+
+  getBatching() {
+    return this.batching
+  }
+
+  /**
+   * 开启后，get 请求记录响应的 ETag/Last-Modified，再次请求相同的 url 时附带
+   * If-None-Match/If-Modified-Since；响应为 304 时返回之前的响应体，
+   * 并可通过 getResponseValidator 得知该响应未改变。关闭时清除记录的响应。
+   */
+  setConditionalRequests(enabled: boolean) {
+    this.conditionalRequests = enabled
+    if (!enabled) {
+      this.conditionalCache.clear()
+    }
+    return this
+  }
+
+  getConditionalRequests() {
+    return this.conditionalRequests
+  }
+
+  /**
+   * 恢复上一次会话保存的验证信息（见 SDK.persistRequestCache），开启条件请求时，
+   * 对这些 url 的第一次请求附带 If-None-Match/If-Modified-Since。
+   */
+  restoreResponseValidators(validators: StoredValidator[]) {
+    this.conditionalCache.restore(validators)
+    return this
+  }
+
+  /**
+   * 开启后，每个请求附带 W3C traceparent header，并记录在指标中，便于与服务端的链路追踪关联。
+   * 跨域请求需要服务端在 Access-Control-Allow-Headers 中允许 traceparent。
+   */
+  setTracing(enabled: boolean) {
+    this.tracing = enabled
+    return this
+  }
+
+  getTracing() {
+    return this.tracing
+  }
+
+  /**
+   * 设置某类实体的批量获取接口，传入 false 表示该类型没有批量接口。
+   */
+  setBatchEndpoint(type: string, endpoint: BatchEndpoint | false) {
+    if (endpoint) {
+      this.batchEndpoints[type] = endpoint
+    } else {
+      delete this.batchEndpoints[type]
+    }
+    return this
+  }
+
+  setTimeout(timeout: number | undefined) {
+    this.timeout = timeout
+    return this
+  }
+
+  getTimeout() {
+    return this.timeout
+  }
+
+  /**
+   * 设置发出请求的底层实现，如在 Node.js 中使用 teambition-sdk/node-transport 提供的 createNodeTransport()。
+   * 传入 undefined 恢复为默认实现。
+   */
+  setTransport(transport: Transport | undefined) {
+    this.transport = transport
+    return this
+  }
+
+  getTransport() {
+    return this.transport
+  }
+
   private setOptionsPerRequest(
     http: Http<any>,
-    fetchOptions: SDKFetchOptions
+    fetchOptions: SDKFetchOptions,
+    path: string
   ): void {
     let headers: any
 
@@ -245,21 +647,33 @@ export class SDKFetch {
       headers = this.headers
     }
 
-    const token = fetchOptions.token || this.token
+    // 请求中显式指定了 Authorization（如上传服务的授权）时，不再使用 token
+    const explicitAuth = !!fetchOptions.headers && 'Authorization' in fetchOptions.headers
+    const token = explicitAuth ? undefined : fetchOptions.token || this.token
 
     let options = getUnnamedOptions(fetchOptions)
     if (Object.keys(options).length === 0) {
       options = this.options
     }
 
-    http.setHeaders(headers)
+    http.setHeaders(this.tracing ? { ...headers, traceparent: createTraceparent() } : headers)
     if (token) {
       http.setToken(token)
     }
 
+    // 单个请求指定的 token 由调用者自行管理，不做刷新
+    if (this.tokenProvider && !fetchOptions.token && !explicitAuth) {
+      http.setTokenRefresher(() => this.refreshToken(token))
+    }
+
     if (Object.keys(options).length > 0) {
       http.setOpts(options)
     }
+
+    http.setRetry(getRetryPerRequest(this.retry, fetchOptions.retry))
+    http.setTimeout(typeof fetchOptions.timeout !== 'undefined' ? fetchOptions.timeout : this.timeout)
+    http.setTransport(this.transport)
+    http.setMetrics({ path: toPathTemplate(path), report: metric => this.metrics$.next(metric) })
   }
 
   // 注意：当该方法相关逻辑发生修改，请至 mock/mock.ts 做相应修改。
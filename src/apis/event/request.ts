@@ -76,7 +76,7 @@ export function fetchAnEvent(
   eventId: EventId,
   query?: any
 ): Observable<EventSchema> {
-  return this.get<EventSchema>(`events/${eventId}`, query)
+  return this.getOne<EventSchema>('events', eventId, query)
     .map(eventMarshaler.parse)
 }
 
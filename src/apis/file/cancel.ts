@@ -0,0 +1,12 @@
+/**
+ * 上传或下载被 cancel 中止时，start 返回的 Observable 以该错误结束。
+ */
+export class TransferCancelledError extends Error {
+  name = 'TransferCancelledError'
+
+  constructor(message: string) {
+    super(message)
+    // 编译到 ES5 时，需要手动修正原型链，instanceof 才能正确工作
+    Object.setPrototypeOf(this, new.target.prototype)
+  }
+}
@@ -0,0 +1,290 @@
+import 'rxjs/add/observable/defer'
+import 'rxjs/add/observable/empty'
+import 'rxjs/add/observable/merge'
+import 'rxjs/add/observable/of'
+import 'rxjs/add/operator/concatMap'
+import 'rxjs/add/operator/do'
+import 'rxjs/add/operator/expand'
+import 'rxjs/add/operator/finally'
+import 'rxjs/add/operator/map'
+import 'rxjs/add/operator/publishLast'
+import 'rxjs/add/operator/take'
+import 'rxjs/add/operator/toArray'
+import { BehaviorSubject } from 'rxjs/BehaviorSubject'
+import { Observable } from 'rxjs/Observable'
+import { Subject } from 'rxjs/Subject'
+import { FileId } from 'teambition-types'
+import { SDK } from '../../SDK'
+import { FileSchema } from '../../schemas/File'
+import { TransferCancelledError } from './cancel'
+
+/**
+ * 下载得到的数据，浏览器中为 Blob，Node.js 中（使用 createNodeTransport 时）为 Buffer（即 Uint8Array）。
+ */
+export type DownloadData = Blob | Uint8Array
+
+export interface DownloadFileOptions {
+  /**
+   * 下载的来源，默认为 download（downloadUrl），preview 为 previewUrl。
+   */
+  source?: 'download' | 'preview'
+  /**
+   * 每次 Range 请求的字节数，设置为 0 则一次请求下载整个文件。默认为 1MB。
+   */
+  chunkSize?: number
+}
+
+export interface FileDownloadProgress {
+  /**
+   * 已下载的字节数。
+   */
+  loaded: number
+  total: number
+}
+
+export interface ThumbnailOptions {
+  width?: number
+  height?: number
+}
+
+const defaultChunkSize = 1024 * 1024
+
+const sizeOf = (data: DownloadData) =>
+  data instanceof Uint8Array ? data.byteLength : data.size
+
+const concatData = (chunks: DownloadData[]): DownloadData => {
+  if (chunks.length === 1) {
+    return chunks[0]
+  }
+  if (!chunks.length) {
+    // 空文件没有下载任何数据，按运行环境返回相应类型的空数据
+    const isNode = typeof process !== 'undefined' && !!process.versions && !!process.versions.node
+    return isNode && typeof Buffer !== 'undefined' ? Buffer.alloc(0) : new Blob([])
+  }
+  return typeof Buffer !== 'undefined' && Buffer.isBuffer(chunks[0])
+    ? Buffer.concat(chunks as any[])
+    : new Blob(chunks as Blob[])
+}
+
+// 自定义的 Transport 返回的 headers 不一定为小写
+const getHeader = (headers: any, name: string): string | undefined => {
+  const lowerCaseName = name.toLowerCase()
+  const key = headers ? Object.keys(headers).filter(k => k.toLowerCase() === lowerCaseName)[0] : undefined
+  return key ? headers[key] : undefined
+}
+
+/**
+ * 以二进制下载 url，range 为 [start, end]（包含 end）时发出 Range 请求，partial 表示响应为 206。
+ * 请求经过 SDKFetch 的拦截器、重试、超时及指标记录，错误与其它请求一样以 HttpErrorMessage 报出。
+ */
+export function requestBinary(
+  sdk: SDK,
+  url: string,
+  range?: [number, number]
+): Observable<{ body: DownloadData, partial: boolean }> {
+  const headers: { [header: string]: string } = range ? { Range: `bytes=${range[0]}-${range[1]}` } : {}
+
+  return sdk.fetch.getBinary(url, { headers })
+    .map(({ headers: responseHeaders, body }) => ({
+      body,
+      // 206 的响应总是带有 Content-Range
+      partial: !!range && !!getHeader(responseHeaders, 'Content-Range')
+    }))
+}
+
+/**
+ * 一次文件下载。数据分段通过 Range 请求下载，失败或取消后再次 start 会从已下载的位置继续。
+ * 下载完成后会检查数据大小与 fileSize 是否一致。
+ */
+export class FileDownload {
+
+  readonly progress$: BehaviorSubject<FileDownloadProgress>
+
+  private target: { url: string, size: number } | null = null
+  private chunks: DownloadData[] = []
+  private loaded = 0
+  private result$: Observable<DownloadData> | null = null
+  private cancelled$: Subject<never> | null = null
+
+  constructor(
+    private sdk: SDK,
+    private fileId: FileId,
+    private options: DownloadFileOptions = {}
+  ) {
+    this.progress$ = new BehaviorSubject<FileDownloadProgress>({ loaded: 0, total: 0 })
+  }
+
+  /**
+   * 逐段推送新下载的数据，适合在 Node.js 中写入 stream。与 start 一样会从已下载的位置继续，
+   * 但推送过的数据不会被保留；继续下载时服务端忽略了 Range，则以错误结束，下载进度被重置。
+   */
+  stream(): Observable<DownloadData> {
+    return this.download(false)
+  }
+
+  /**
+   * 返回的 Observable 在下载完成后推送完整的数据并完成。下载进行中再次调用返回同一次下载。
+   */
+  start(): Observable<DownloadData> {
+    if (this.result$) {
+      return this.result$
+    }
+
+    // cancel 时以错误结束，正在进行的请求随之被取消订阅
+    const cancelled$ = new Subject<never>()
+    const result$ = Observable.merge(
+      Observable.defer(() => {
+        // 之前通过 stream 下载的数据没有保留，需要重新下载
+        if (this.chunks.reduce((size, chunk) => size + sizeOf(chunk), 0) !== this.loaded) {
+          this.reset()
+        }
+        return this.download(true)
+      })
+        .toArray()
+        .map(() => concatData(this.chunks)),
+      cancelled$
+    )
+      .take(1)
+      .finally(() => {
+        this.result$ = null
+        this.cancelled$ = null
+      })
+      .publishLast()
+
+    this.result$ = result$
+    this.cancelled$ = cancelled$
+    result$.connect()
+    return result$
+  }
+
+  /**
+   * 中止下载，start 返回的 Observable 以 TransferCancelledError 结束。
+   * 已下载的数据会被保留，之后可以通过 start 继续。
+   */
+  cancel() {
+    if (this.cancelled$) {
+      this.cancelled$.error(new TransferCancelledError(`Download of ${this.fileId} is cancelled`))
+    }
+  }
+
+  private download(keepChunks: boolean): Observable<DownloadData> {
+    const next = (): Observable<DownloadData> => this.loaded < this.target!.size
+      ? this.requestChunk(keepChunks)
+      : Observable.empty<DownloadData>()
+
+    return Observable.defer(() => this.prepare())
+      .concatMap(() => next().expand(next))
+      .do({
+        complete: () => {
+          if (this.loaded !== this.target!.size) {
+            const loaded = this.loaded
+            this.reset()
+            throw this.sizeMismatch(loaded)
+          }
+        }
+      })
+  }
+
+  private prepare(): Observable<{ url: string, size: number }> {
+    if (this.target) {
+      return Observable.of(this.target)
+    }
+    return this.sdk.fetch.getFile(this.fileId)
+      .map((file: FileSchema) => ({
+        url: this.options.source === 'preview' ? file.previewUrl : file.downloadUrl,
+        size: file.fileSize
+      }))
+      .do(target => {
+        this.target = target
+        this.emitProgress()
+      })
+  }
+
+  private requestChunk(keepChunks: boolean): Observable<DownloadData> {
+    const { url, size } = this.target!
+    const chunkSize = typeof this.options.chunkSize === 'number' ? this.options.chunkSize : defaultChunkSize
+    const range: [number, number] | undefined = chunkSize > 0
+      ? [this.loaded, Math.min(this.loaded + chunkSize, size) - 1]
+      : undefined
+
+    return requestBinary(this.sdk, url, range)
+      .map(({ body: data, partial }) => {
+        // 服务端忽略了 Range 时返回的是完整的数据。stream 已经推送了之前的数据，无法从头开始
+        if (!partial && this.loaded > 0 && !keepChunks) {
+          this.reset()
+          throw new Error(`Range request of ${this.fileId} is ignored by the server, the download cannot be resumed`)
+        }
+        if (!partial) {
+          this.chunks = []
+          this.loaded = 0
+          if (sizeOf(data) !== size) {
+            this.reset()
+            throw this.sizeMismatch(sizeOf(data))
+          }
+        }
+        if (keepChunks) {
+          this.chunks.push(data)
+        }
+        this.loaded += sizeOf(data)
+        this.emitProgress()
+        return data
+      })
+  }
+
+  private sizeMismatch(loaded: number) {
+    return new Error(`Downloaded ${loaded} bytes, but the fileSize of ${this.fileId} is ${this.target!.size}`)
+  }
+
+  private reset() {
+    this.chunks = []
+    this.loaded = 0
+    this.emitProgress()
+  }
+
+  private emitProgress() {
+    this.progress$.next({ loaded: this.loaded, total: this.target ? this.target.size : 0 })
+  }
+}
+
+/**
+ * 将缩略图地址中的宽高（/w/:width/h/:height）替换为指定的尺寸。
+ */
+export const getThumbnailUrl = (thumbnailUrl: string, options: ThumbnailOptions = {}): string => {
+  return thumbnailUrl.replace(/\/w\/(\d+)\/h\/(\d+)/, (_, width, height) =>
+    `/w/${options.width || width}/h/${options.height || height}`
+  )
+}
+
+/**
+ * 下载文件，返回的 FileDownload 需要调用 start（或订阅 stream）开始下载。
+ */
+export function downloadFile(
+  this: SDK,
+  fileId: FileId,
+  options?: DownloadFileOptions
+): FileDownload {
+  return new FileDownload(this, fileId, options)
+}
+
+/**
+ * 获取指定尺寸的文件缩略图。
+ */
+export function getFileThumbnail(
+  this: SDK,
+  fileId: FileId,
+  options?: ThumbnailOptions
+): Observable<DownloadData> {
+  return this.fetch.getFile(fileId)
+    .concatMap((file: FileSchema) => requestBinary(this, getThumbnailUrl(file.thumbnailUrl, options)))
+    .map(response => response.body)
+}
+
+SDK.prototype.downloadFile = downloadFile
+SDK.prototype.getFileThumbnail = getFileThumbnail
+
+declare module '../../SDK' {
+  interface SDK {
+    downloadFile: typeof downloadFile
+    getFileThumbnail: typeof getFileThumbnail
+  }
+}
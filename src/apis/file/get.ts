@@ -10,7 +10,7 @@ export function getFileFetch(
   fileId: FileId,
   query?: any
 ): Observable<FileSchema> {
-  return this.get<FileSchema>(`works/${fileId}`, query)
+  return this.getOne<FileSchema>('works', fileId, query)
 }
 
 SDKFetch.prototype.getFile = getFileFetch
@@ -1 +1,3 @@
 import './get'
+import './upload'
+import './download'
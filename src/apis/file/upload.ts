@@ -0,0 +1,322 @@
+import 'rxjs/add/observable/defer'
+import 'rxjs/add/observable/from'
+import 'rxjs/add/observable/merge'
+import 'rxjs/add/observable/of'
+import 'rxjs/add/operator/concatMap'
+import 'rxjs/add/operator/do'
+import 'rxjs/add/operator/finally'
+import 'rxjs/add/operator/map'
+import 'rxjs/add/operator/mergeMap'
+import 'rxjs/add/operator/publishLast'
+import 'rxjs/add/operator/take'
+import 'rxjs/add/operator/toArray'
+import { BehaviorSubject } from 'rxjs/BehaviorSubject'
+import { Observable } from 'rxjs/Observable'
+import { Subject } from 'rxjs/Subject'
+import { CollectionId, ProjectId } from 'teambition-types'
+import { SDK } from '../../SDK'
+import { SDKFetch, SDKFetchOptions } from '../../SDKFetch'
+import { FileSchema } from '../../schemas/File'
+import { TransferCancelledError } from './cancel'
+
+export const defaultUploadHost = 'https://tcs.teambition.net'
+
+/**
+ * 创建分片上传后，上传服务返回的信息。uploadedChunks 为已经上传的分片序号（从 1 开始），
+ * 用于恢复中断的上传。
+ */
+export interface ChunkUploadInfo {
+  fileKey: string
+  fileName: string
+  fileSize: number
+  chunkSize: number
+  chunks: number
+  uploadedChunks?: number[]
+}
+
+/**
+ * 合并分片后，上传服务返回的文件信息，用于创建文件。
+ */
+export interface UploadedFileInfo {
+  fileKey: string
+  fileName: string
+  fileType: string
+  fileSize: number
+  fileCategory: string
+  imageWidth?: number
+  imageHeight?: number
+  source?: string
+  [key: string]: any
+}
+
+/**
+ * 上传服务的地址与授权，授权即 UserMe.strikerAuth。
+ */
+export interface UploadServer {
+  host: string
+  auth: string
+}
+
+export type UploadTarget = { _projectId: ProjectId } | { _collectionId: CollectionId }
+
+export interface UploadFileOptions {
+  /**
+   * 默认为 File.name。
+   */
+  fileName?: string
+  /**
+   * 上传服务的地址，默认为 defaultUploadHost。
+   */
+  uploadHost?: string
+  /**
+   * 上传服务的授权，默认通过 users/me 获取 strikerAuth。
+   */
+  uploadAuth?: string
+  /**
+   * 同时上传的分片数。默认为 3。
+   */
+  concurrency?: number
+}
+
+export interface FileUploadProgress {
+  /**
+   * 已上传的字节数。
+   */
+  loaded: number
+  total: number
+  uploadedChunks: number
+  chunks: number
+}
+
+export type UploadableFile = Blob & { name?: string, lastModified?: number }
+
+const uploadOptions = (server: UploadServer, headers?: {}): SDKFetchOptions => ({
+  apiHost: server.host,
+  headers: { ...headers, Authorization: server.auth, merge: true }
+})
+
+export function createChunkUploadFetch(
+  this: SDKFetch,
+  server: UploadServer,
+  file: { fileName: string, fileSize: number, lastUpdated?: string }
+): Observable<ChunkUploadInfo> {
+  return this.post<ChunkUploadInfo>('upload/chunk', file, uploadOptions(server))
+}
+
+export function uploadChunkFetch(
+  this: SDKFetch,
+  server: UploadServer,
+  fileKey: string,
+  chunk: number,
+  blob: Blob
+): Observable<any> {
+  return this.post(
+    `upload/chunk/${fileKey}?chunk=${chunk}`,
+    blob,
+    {
+      ...uploadOptions(server, { 'Content-Type': 'application/octet-stream' }),
+      // 重复上传同一分片是安全的；创建上传及合并分片不是幂等的，不重试
+      retry: { methods: ['post'] }
+    }
+  )
+}
+
+export function mergeChunksFetch(
+  this: SDKFetch,
+  server: UploadServer,
+  fileKey: string
+): Observable<UploadedFileInfo> {
+  return this.post<UploadedFileInfo>(`upload/chunk/${fileKey}`, null, uploadOptions(server))
+}
+
+export function createWorksFetch(
+  this: SDKFetch,
+  _parentId: CollectionId,
+  works: UploadedFileInfo[]
+): Observable<FileSchema[]> {
+  return this.post<FileSchema[]>('works', { _parentId, works })
+}
+
+SDKFetch.prototype.createChunkUpload = createChunkUploadFetch
+SDKFetch.prototype.uploadChunk = uploadChunkFetch
+SDKFetch.prototype.mergeChunks = mergeChunksFetch
+SDKFetch.prototype.createWorks = createWorksFetch
+
+declare module '../../SDKFetch' {
+  interface SDKFetch {
+    createChunkUpload: typeof createChunkUploadFetch
+    uploadChunk: typeof uploadChunkFetch
+    mergeChunks: typeof mergeChunksFetch
+    createWorks: typeof createWorksFetch
+  }
+}
+
+/**
+ * 一次分片上传。start 开始（或在失败、取消后从未完成的分片继续）上传，
+ * cancel 中止正在进行的上传，progress$ 推送上传进度。
+ */
+export class FileUpload {
+
+  readonly progress$: BehaviorSubject<FileUploadProgress>
+
+  private info: ChunkUploadInfo | null = null
+  private uploadedChunks = new Set<number>()
+  private server: UploadServer | null = null
+  private parentId: CollectionId | null = null
+  private result$: Observable<FileSchema> | null = null
+  private cancelled$: Subject<never> | null = null
+
+  constructor(
+    private sdk: SDK,
+    private target: UploadTarget,
+    private file: UploadableFile,
+    private options: UploadFileOptions = {}
+  ) {
+    this.progress$ = new BehaviorSubject<FileUploadProgress>({
+      loaded: 0, total: file.size, uploadedChunks: 0, chunks: 0
+    })
+  }
+
+  /**
+   * 返回的 Observable 在文件创建后推送 FileSchema 并完成。上传进行中再次调用返回同一次上传。
+   */
+  start(): Observable<FileSchema> {
+    if (this.result$) {
+      return this.result$
+    }
+
+    const upload$ = Observable.defer(() => this.prepare())
+      .concatMap(info => this.uploadChunks(info))
+      .concatMap(() => this.sdk.fetch.mergeChunks(this.server!, this.info!.fileKey))
+      .concatMap(fileInfo => this.sdk.lift({
+        request: this.sdk.fetch.createWorks(this.parentId!, [fileInfo]),
+        tableName: 'File',
+        method: 'create'
+      }) as Observable<any>)
+      .map((files: FileSchema | FileSchema[]) => Array.isArray(files) ? files[0] : files)
+
+    // cancel 时以错误结束，正在进行的请求随之被取消订阅
+    const cancelled$ = new Subject<never>()
+    const result$ = Observable.merge(upload$, cancelled$)
+      .take(1)
+      .finally(() => {
+        this.result$ = null
+        this.cancelled$ = null
+      })
+      .publishLast()
+
+    this.result$ = result$
+    this.cancelled$ = cancelled$
+    result$.connect()
+    return result$
+  }
+
+  /**
+   * 中止上传，start 返回的 Observable 以 TransferCancelledError 结束。
+   * 已经上传的分片会被保留，之后可以通过 start 继续。
+   */
+  cancel() {
+    if (this.cancelled$) {
+      this.cancelled$.error(new TransferCancelledError(`Upload of ${this.file.name || 'blob'} is cancelled`))
+    }
+  }
+
+  private prepare(): Observable<ChunkUploadInfo> {
+    const server$ = this.server
+      ? Observable.of(this.server)
+      : this.getUploadServer().do(server => this.server = server)
+    const parentId$ = this.parentId
+      ? Observable.of(this.parentId)
+      : this.getParentId().do(parentId => this.parentId = parentId)
+
+    return server$
+      .concatMap(() => parentId$)
+      .concatMap(() => {
+        if (this.info) {
+          return Observable.of(this.info)
+        }
+        const { file } = this
+        return this.sdk.fetch.createChunkUpload(this.server!, {
+          fileName: this.options.fileName || file.name || 'blob',
+          fileSize: file.size,
+          lastUpdated: file.lastModified ? new Date(file.lastModified).toISOString() : undefined
+        })
+          .do(info => {
+            this.info = info
+            // 上传服务已经收到的分片（如上一次会话中上传的）不再重复上传
+            ;(info.uploadedChunks || []).forEach(chunk => this.uploadedChunks.add(chunk))
+            this.emitProgress()
+          })
+      })
+  }
+
+  private uploadChunks(info: ChunkUploadInfo): Observable<void> {
+    const pending: number[] = []
+    for (let chunk = 1; chunk <= info.chunks; chunk++) {
+      if (!this.uploadedChunks.has(chunk)) {
+        pending.push(chunk)
+      }
+    }
+    return Observable.from(pending)
+      .mergeMap(chunk => {
+        const start = (chunk - 1) * info.chunkSize
+        const blob = this.file.slice(start, Math.min(start + info.chunkSize, this.file.size))
+        return this.sdk.fetch.uploadChunk(this.server!, info.fileKey, chunk, blob)
+          .do(() => {
+            this.uploadedChunks.add(chunk)
+            this.emitProgress()
+          })
+      }, this.options.concurrency || 3)
+      .toArray()
+      .map(() => void 0)
+  }
+
+  private emitProgress() {
+    const info = this.info!
+    let loaded = 0
+    this.uploadedChunks.forEach(chunk => {
+      loaded += Math.min(info.chunkSize, this.file.size - (chunk - 1) * info.chunkSize)
+    })
+    this.progress$.next({
+      loaded,
+      total: this.file.size,
+      uploadedChunks: this.uploadedChunks.size,
+      chunks: info.chunks
+    })
+  }
+
+  private getUploadServer(): Observable<UploadServer> {
+    const host = this.options.uploadHost || defaultUploadHost
+    return this.options.uploadAuth
+      ? Observable.of({ host, auth: this.options.uploadAuth })
+      : this.sdk.fetch.getUserMe().map(userMe => ({ host, auth: userMe.strikerAuth as string }))
+  }
+
+  private getParentId(): Observable<CollectionId> {
+    const target = this.target
+    return '_collectionId' in target
+      ? Observable.of(target._collectionId)
+      : this.sdk.fetch.getProject(target._projectId).map(project => project._rootCollectionId)
+  }
+}
+
+/**
+ * 将文件分片上传到项目（的根目录）或指定的目录，完成后创建文件，并写入 ReactiveDB。
+ * 返回的 FileUpload 需要调用 start 开始上传。
+ */
+export function uploadFile(
+  this: SDK,
+  target: UploadTarget,
+  file: UploadableFile,
+  options?: UploadFileOptions
+): FileUpload {
+  return new FileUpload(this, target, file, options)
+}
+
+SDK.prototype.uploadFile = uploadFile
+
+declare module '../../SDK' {
+  interface SDK {
+    uploadFile: typeof uploadFile
+  }
+}
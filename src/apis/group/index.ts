@@ -1,5 +1,7 @@
 import { Observable } from 'rxjs/Observable'
 import { SDKFetch } from '../../SDKFetch'
+import { SDK } from '../../SDK'
+import { RoomSubscription } from '../../sockets/SocketClient'
 import { GroupId } from 'teambition-types'
 
 export function subscribeGroupFetch(
@@ -18,9 +20,22 @@ export function unsubscribeGroupFetch(
   return this.delete<null>(`groups/${groupId}/subscribe`, { consumerId })
 }
 
+/**
+ * 订阅群组的推送（加入 groups/:id 房间），与 subscribeGroupFetch 请求同一接口，
+ * 但在多处订阅时共享一次加入，并在断线重连后重新加入。
+ */
+export function subscribeGroup(
+  this: SDK,
+  groupId: GroupId
+): RoomSubscription {
+  return this.socketClient.subscribe(`groups/${groupId}`)
+}
+
 SDKFetch.prototype.subscribeGroup = subscribeGroupFetch
 SDKFetch.prototype.unsubscribeGroup = unsubscribeGroupFetch
 
+SDK.prototype.subscribeGroup = subscribeGroup
+
 declare module '../../SDKFetch' {
   /*tslint:disable no-shadowed-variable*/
   interface SDKFetch {
@@ -28,3 +43,10 @@ declare module '../../SDKFetch' {
     unsubscribeGroup: typeof unsubscribeGroupFetch
   }
 }
+
+declare module '../../SDK' {
+  /*tslint:disable no-shadowed-variable*/
+  interface SDK {
+    subscribeGroup: typeof subscribeGroup
+  }
+}
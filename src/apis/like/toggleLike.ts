@@ -4,14 +4,18 @@ import { SDKFetch } from '../../SDKFetch'
 import { SDK } from '../../SDK'
 import { DetailObjectId, DetailObjectType } from 'teambition-types'
 
+const getLikeUri = (objectType: DetailObjectType, objectId: DetailObjectId) => {
+  const fetchNamespace = objectType !== 'entry' ? `${objectType}s` : 'entries'
+  return `${fetchNamespace}/${objectId}/like`
+}
+
 export function toggleLikeFetch (
   this: SDKFetch,
   objectType: DetailObjectType,
   objectId: DetailObjectId,
   isLike: boolean
 ): Observable<LikeSchema> {
-  const fetchNamespace = objectType !== 'entry' ? `${objectType}s` : 'entries'
-  const uri = `${fetchNamespace}/${objectId}/like`
+  const uri = getLikeUri(objectType, objectId)
   const dist = isLike ? this.delete<LikeSchema>(uri) : this.post<LikeSchema>(uri)
   return dist.map(r => {
     r._id = `${objectId}:like`
@@ -37,7 +41,13 @@ export function toggleLike (
     request: this.fetch.toggleLike(objectType, objectId, isLike),
     tableName: 'Like',
     method: 'update',
-    clause: { _id: `${objectId}:like` }
+    clause: { _id: `${objectId}:like` },
+    optimistic: { isLike: !isLike },
+    offline: {
+      method: isLike ? 'delete' : 'post',
+      path: getLikeUri(objectType, objectId),
+      patch: { isLike: !isLike }
+    }
   })
 }
 
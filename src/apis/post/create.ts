@@ -31,7 +31,8 @@ export function createPost(this: SDK, options: CreatePostOptions): Observable<Po
   return this.lift({
     request: this.fetch.createPost(options),
     tableName: 'Post',
-    method: 'create'
+    method: 'create',
+    offline: { method: 'post', path: 'posts', body: options }
   })
 }
 
@@ -38,7 +38,9 @@ export function updatePost(
     request: this.fetch.updatePost(_id, options),
     tableName: 'Post',
     method: 'update',
-    clause: { _id }
+    clause: { _id },
+    optimistic: options,
+    offline: { method: 'put', path: `posts/${_id}`, body: options }
   })
 }
 
@@ -10,7 +10,7 @@ export function getTaskFetch(
   taskId: TaskId,
   query?: any
 ): Observable<TaskSchema> {
-  return this.get<TaskSchema>(`tasks/${taskId}`, query)
+  return this.getOne<TaskSchema>('tasks', taskId, query)
 }
 
 SDKFetch.prototype.getTask = getTaskFetch
@@ -25,7 +25,8 @@ export function updateUser<T>(
     request: this.fetch.updateUser(patch),
     tableName: 'User',
     method: 'update',
-    clause: { }
+    clause: { },
+    offline: { method: 'put', path: 'users', body: patch }
   })
 }
 
@@ -17,11 +17,32 @@ export * from './schemas'
 import * as EventSDK from './apis/event'
 export { EventSDK }
 
+export {
+  FileUpload, FileUploadProgress, UploadFileOptions, UploadTarget, ChunkUploadInfo, UploadedFileInfo, defaultUploadHost
+} from './apis/file/upload'
+export { TransferCancelledError } from './apis/file/cancel'
+export {
+  FileDownload, FileDownloadProgress, DownloadFileOptions, DownloadData, ThumbnailOptions, getThumbnailUrl
+} from './apis/file/download'
+
 import * as Socket from './sockets'
 export { Socket, eventToRE as socketEventToRE }
 
 export { SDK } from './SDK'
-export { SDKFetch } from './SDKFetch'
-export { Net, CacheStrategy, Http, HttpErrorMessage, HttpError$ } from './Net'
+export { SDKFetch, TokenProvider } from './SDKFetch'
+export {
+  Net, CacheStrategy, CacheInvalidation, Http, HttpErrorMessage, HttpErrorKind, HttpError$, RetryOptions,
+  FetchInterceptor, FetchInterceptors, FetchRequest,
+  RequestScheduler, RequestSchedulerOptions, RequestSchedulerState, RequestWaitRecord, RequestPriority, RateLimit,
+  BatchEndpoint,
+  Paginator, PaginatorOptions, PageParams, CursorParams, CursorApiResult, PageResponse,
+  ConditionalCache, ResponseValidator, StoredValidator, getResponseValidator,
+  Transport, TransportRequest, TransportResponse,
+  RequestMetric, RequestMetricReporter, CacheMetricResult, HttpMetricsContext, toPathTemplate, createTraceparent,
+  RequestCacheStore, RequestCacheEntry, PersistedRequestCache, MemoryRequestCacheStore, IndexedDBRequestCacheStore,
+  OfflineQueue, OfflineStore, OfflineRequest, OfflineWriteEvent, PendingWrite, MemoryOfflineStore, IndexedDBOfflineStore,
+  SDKError, SDKErrorCode, TeambitionErrorBody, NetworkError, TimeoutError, AuthError,
+  ValidationError, NotFoundError, RateLimitError, ServerError
+} from './Net'
 
 // export const SocketClient: Client = sdk.socket
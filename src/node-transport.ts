@@ -0,0 +1,8 @@
+/**
+ * Node.js 专用的入口（teambition-sdk/node-transport）。NodeTransport 依赖 http、https 等 Node.js 模块，
+ * 不从主入口导出，以免打包浏览器端代码时引入这些模块。
+ *
+ * import { createNodeTransport } from 'teambition-sdk/node-transport'
+ * sdk.fetch.setTransport(createNodeTransport({ proxy: 'http://127.0.0.1:8080' }))
+ */
+export * from './Net/NodeTransport'
@@ -26,11 +26,12 @@ export const createMsgHandler = (
 }
 
 /**
- * refresh 事件需要逐个单独处理
+ * refresh 事件需要逐个单独处理，提供 onRefresh 时交由它处理
  * destroy 事件没有 data
  */
 export const createMsgToDBHandler = (
-  mapToTable: TableInfoByMessageType
+  mapToTable: TableInfoByMessageType,
+  onRefresh?: (msg: ParsedWSMsg) => void
 ) => (
   msg: ParsedWSMsg,
   db: Database
@@ -60,6 +61,11 @@ export const createMsgToDBHandler = (
       return dbMethod.call(db, tabName, {
         where: Array.isArray(data) ? { [pkName]: { $in: data } } : { [pkName]: data }
       })
+    case 'refresh':
+      if (onRefresh) {
+        onRefresh(msg)
+      }
+      return Observable.of(null)
     default:
       return Observable.of(null)
   }
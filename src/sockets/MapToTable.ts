@@ -24,7 +24,7 @@ export class TableInfoByMessageType {
     this.tabAliasByLowerCase = aliases.reduce(byLowerCase, {})
   }
 
-  private getTableName(msgType: string): string | undefined {
+  getTableName(msgType: string): string | undefined {
     const msgtypes = msgType.toLowerCase()
 
     const alias = this.tabAliasByLowerCase[msgtypes]
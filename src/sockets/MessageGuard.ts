@@ -0,0 +1,178 @@
+import 'rxjs/add/observable/defer'
+import 'rxjs/add/operator/toPromise'
+import { Observable } from 'rxjs/Observable'
+import { Database } from 'reactivedb'
+import { ParsedWSMsg } from '../utils'
+import { TableInfoByMessageType } from './MapToTable'
+
+interface AppliedVersion {
+  updated: number
+  data: string
+}
+
+const parseUpdated = (updated: any): number | null => {
+  if (typeof updated === 'number') {
+    return updated
+  }
+  const time = typeof updated === 'string' ? Date.parse(updated) : NaN
+  return isNaN(time) ? null : time
+}
+
+interface GuardedMessage {
+  msg: ParsedWSMsg
+  // 写入成功后记录的版本
+  versions: [string, AppliedVersion][]
+}
+
+/**
+ * 保证同一实体上的推送按到达顺序写入 ReactiveDB，并丢弃重复或过期的推送：
+ * new/change 的数据中 updated 早于已写入的版本或 ReactiveDB 中数据的 updated 时视为过期，
+ * updated 与已写入的版本相同且内容相同时视为重复。没有 updated 的数据无法判断，总是写入。
+ */
+export class MessageGuard {
+
+  private pending = new Map<string, Promise<void>>()
+  private versions = new Map<string, AppliedVersion>()
+
+  /**
+   * maxVersions 为记录的实体版本数上限，超出时丢弃最早记录的。
+   */
+  constructor(private mapToTable: TableInfoByMessageType, private maxVersions = 2000) {}
+
+  /**
+   * 传入 db 时，同时与 ReactiveDB 中已有数据的 updated 比较。
+   */
+  apply(msg: ParsedWSMsg, handler: (msg: ParsedWSMsg) => Observable<any>, db?: Database): Observable<any> {
+    const tabInfo = this.mapToTable.getTableInfo(msg.type)
+    if (!tabInfo) {
+      return handler(msg)
+    }
+    const { tabName, pkName } = tabInfo
+    const keys = this.getEntityIds(msg, pkName).map(id => `${tabName}:${id}`)
+    if (!keys.length) {
+      return handler(msg)
+    }
+
+    // 订阅时才排队，Net.persist 中缓冲的消息需要在之前的写入之后执行
+    return Observable.defer(() => {
+      const previous = Promise.all(keys.map(key => this.pending.get(key)))
+      const run = previous
+        .then(() => this.filter(msg, tabName, pkName, db))
+        .then(guarded => {
+          if (!guarded) {
+            return
+          }
+          // 写入失败时不记录版本，之后相同的推送仍然可以写入
+          return handler(guarded.msg).toPromise()
+            .then(() => guarded.versions.forEach(([key, version]) => this.record(key, version)))
+        })
+      const settled = run.then(() => void 0, () => void 0)
+      keys.forEach(key => {
+        this.pending.set(key, settled)
+        settled.then(() => {
+          if (this.pending.get(key) === settled) {
+            this.pending.delete(key)
+          }
+        })
+      })
+      return run
+    })
+  }
+
+  private getEntityIds(msg: ParsedWSMsg, pkName: string): string[] {
+    const { method, id, data } = msg
+    const ids: any[] = []
+    switch (method) {
+      case 'new':
+        (Array.isArray(data) ? data : [data]).forEach((item: any) => ids.push(item && item[pkName] || id))
+        break
+      case 'change':
+        if (Array.isArray(data)) {
+          data.forEach((item: any) => ids.push(item && item[pkName]))
+        } else {
+          ids.push(id)
+        }
+        break
+      case 'destroy':
+        ids.push(id)
+        break
+      case 'remove':
+        (Array.isArray(data) ? data : [data]).forEach((pk: any) => ids.push(pk))
+        break
+    }
+    return ids.filter(pk => pk)
+  }
+
+  /**
+   * 返回去掉过期及重复数据后的消息，全部被去掉时返回 null。
+   */
+  private filter(msg: ParsedWSMsg, tabName: string, pkName: string, db?: Database): Promise<GuardedMessage | null> {
+    const { method, id, data } = msg
+    if (method !== 'new' && method !== 'change') {
+      return Promise.resolve({ msg, versions: [] })
+    }
+    const items: { pk: any, item: any }[] = Array.isArray(data)
+      ? data.map((item: any) => ({ pk: item && item[pkName], item }))
+      : [{ pk: method === 'change' ? id : (data && data[pkName] || id), item: data }]
+    const checked = items.filter(({ pk, item }) => pk && parseUpdated(item && item.updated) !== null)
+
+    return this.getStoredUpdated(checked.map(({ pk }) => pk), tabName, pkName, db)
+      .then(stored => {
+        const versions: [string, AppliedVersion][] = []
+        const accepted = items.filter(({ pk, item }) => {
+          const updated = parseUpdated(item && item.updated)
+          if (!pk || updated === null) {
+            return true
+          }
+          const key = `${tabName}:${pk}`
+          const version = { updated, data: JSON.stringify(item) }
+          if (this.isStale(key, version, stored.get(pk))) {
+            return false
+          }
+          versions.push([key, version])
+          return true
+        })
+        if (!accepted.length) {
+          return null
+        }
+        if (!Array.isArray(data)) {
+          return { msg, versions }
+        }
+        return { msg: accepted.length === data.length ? msg : { ...msg, data: accepted.map(({ item }) => item) }, versions }
+      })
+  }
+
+  private getStoredUpdated(pks: any[], tabName: string, pkName: string, db?: Database): Promise<Map<any, number>> {
+    const stored = new Map<any, number>()
+    if (!db || !pks.length) {
+      return Promise.resolve(stored)
+    }
+    return db.get<any>(tabName, { where: { [pkName]: { $in: pks } } }).values().toPromise()
+      .then((rows: any[]) => {
+        rows.forEach(row => {
+          const updated = parseUpdated(row.updated)
+          if (updated !== null) {
+            stored.set(row[pkName], updated)
+          }
+        })
+        return stored
+      }, () => stored)
+  }
+
+  private isStale(key: string, version: AppliedVersion, storedUpdated?: number): boolean {
+    if (typeof storedUpdated === 'number' && version.updated < storedUpdated) {
+      return true
+    }
+    const applied = this.versions.get(key)
+    return !!applied &&
+      (version.updated < applied.updated || (version.updated === applied.updated && version.data === applied.data))
+  }
+
+  private record(key: string, version: AppliedVersion) {
+    this.versions.delete(key)
+    this.versions.set(key, version)
+    if (this.versions.size > this.maxVersions) {
+      this.versions.delete(this.versions.keys().next().value)
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { Net, CacheInvalidation } from '../Net'
+import { ParsedWSMsg } from '../utils'
+import { SDKLogger } from '../utils/Logger'
+import { TableInfoByMessageType } from './MapToTable'
+
+/**
+ * 处理 refresh 推送：如 `:refresh:tasks/:projectId` 使 Task 表上查询条件中有字段值为该 projectId 的
+ * 请求缓存失效，仍在订阅中的查询随之重新请求。
+ * 第一条推送立即处理，之后 throttleTime 内的推送去重后合并，在时间窗口结束时处理，以吸收密集的推送。
+ */
+export class RefreshScheduler {
+
+  private pending = new Map<string, CacheInvalidation>()
+  private timer: any = null
+
+  constructor(
+    private net: Net,
+    private mapToTable: TableInfoByMessageType,
+    private throttleTime = 1000
+  ) {}
+
+  setThrottleTime(throttleTime: number) {
+    this.throttleTime = throttleTime
+  }
+
+  schedule(msg: ParsedWSMsg) {
+    const tabInfo = this.mapToTable.getTableInfo(msg.type)
+    if (!tabInfo) {
+      return
+    }
+    const invalidation: CacheInvalidation = msg.id
+      ? { tableName: tabInfo.tabName, whereValue: msg.id }
+      : { tableName: tabInfo.tabName }
+    this.pending.set(`${tabInfo.tabName}/${msg.id}`, invalidation)
+    if (!this.timer) {
+      this.flush()
+    }
+  }
+
+  destroy() {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    this.pending.clear()
+  }
+
+  private flush() {
+    if (!this.pending.size) {
+      this.timer = null
+      return
+    }
+    this.pending.forEach(invalidation => {
+      this.net.invalidate(invalidation)
+        .subscribe({ error: (e: any) => SDKLogger.error(`failed to refresh ${invalidation.tableName}: ${e && e.message}`) })
+    })
+    this.pending.clear()
+    this.timer = setTimeout(() => this.flush(), this.throttleTime)
+  }
+}
@@ -6,22 +6,78 @@ import 'rxjs/add/operator/catch'
 import 'rxjs/add/operator/toPromise'
 import 'rxjs/add/operator/concatMap'
 import 'rxjs/add/operator/take'
+import 'rxjs/add/observable/forkJoin'
+import { BehaviorSubject } from 'rxjs/BehaviorSubject'
 import { Observable } from 'rxjs/Observable'
 import { ReplaySubject } from 'rxjs/ReplaySubject'
-import { Net } from '../Net'
+import { Subscription } from 'rxjs/Subscription'
+import { Net, CacheInvalidation } from '../Net'
+import { SDKLogger } from '../utils/Logger'
 import { Database } from 'reactivedb'
 import { SDKFetch } from '../SDKFetch'
 import { socketHandler, createMsgToDBHandler, createMsgHandler } from './EventMaps'
 import { Interceptors, Proxy } from './Middleware'
+import { SocketEvents } from './SocketEvents'
+import { MessageGuard } from './MessageGuard'
+import { RefreshScheduler } from './RefreshScheduler'
 import * as Consumer from 'snapper-consumer'
 import { UserMe } from '../schemas/UserMe'
 import { TableInfoByMessageType } from './MapToTable'
-import { WSMsgToDBHandler, WSMsgHandler } from '../utils'
+import { WSMsgToDBHandler, WSMsgHandler, decodeBase64 } from '../utils'
 
 declare const global: any
 
 const ctx = typeof global === 'undefined' ? window : global
 
+/**
+ * connecting: 正在建立连接；open: 已连接；closed: 连接断开（snapper-consumer 会自动重连）；
+ * resyncing: 断线后重新连接，正在重新加入房间并刷新断线期间可能错过推送的数据。
+ */
+export type ConnectionState = 'connecting' | 'open' | 'closed' | 'resyncing'
+
+export interface ResyncContext {
+  /**
+   * 连接断开的时间（毫秒时间戳）。
+   */
+  disconnectedAt: number
+  /**
+   * 重新加入的房间。
+   */
+  rooms: string[]
+}
+
+/**
+ * 返回重连后需要刷新的缓存，返回 null 时按重新加入的房间刷新：
+ * 房间 :type/:id 刷新条件中包含该 id 的查询，房间 :type 刷新对应的表。
+ */
+export type ResyncResolver = (context: ResyncContext) => CacheInvalidation[] | null
+
+/**
+ * 通过 SocketClient.subscribe 获得的房间订阅。同一房间的订阅共享一次加入，
+ * 最后一个订阅 unsubscribe 时离开房间。
+ */
+export class RoomSubscription {
+
+  private _closed = false
+
+  constructor(readonly room: string, private _release: (room: string) => Promise<void>) {}
+
+  get closed(): boolean {
+    return this._closed
+  }
+
+  /**
+   * 多次调用只释放一次。
+   */
+  unsubscribe(): Promise<void> {
+    if (this._closed) {
+      return Promise.resolve()
+    }
+    this._closed = true
+    return this._release(this.room)
+  }
+}
+
 export class SocketClient {
   private _isDebug = false
 
@@ -35,6 +91,16 @@ export class SocketClient {
 
   private _joinedRoom = new Set<string>()
   private _leavedRoom = new Set<string>()
+  private _roomRefs = new Map<string, number>()
+
+  private _disconnectedAt: number | null = null
+
+  private _resyncResolver: ResyncResolver = () => null
+
+  /**
+   * 连接状态，断线重连后会先进入 resyncing，刷新完成后回到 open。
+   */
+  public connectionState$ = new BehaviorSubject<ConnectionState>('closed')
 
   /**
    * 拦截器序列。如果需要在消息接触 db 之前对起进行额外的过滤、变换
@@ -46,12 +112,20 @@ export class SocketClient {
    * 状态变更的消息等，可以在这里注册相应 handler。
    */
   public proxy: Proxy
+  /**
+   * 按模型类型订阅数据推送，推送内容带有对应 schema 的类型。
+   */
+  public events: SocketEvents
 
   private handleMsgToDB: WSMsgToDBHandler
   private handleMsg: WSMsgHandler
 
   private database: Database | undefined
 
+  private refreshScheduler: RefreshScheduler
+
+  private tokenSubscription: Subscription
+
   constructor(
     private fetch: SDKFetch,
     private net: Net,
@@ -59,18 +133,31 @@ export class SocketClient {
   ) {
     this.proxy = new Proxy()
     this.handleMsg = createMsgHandler(this.proxy)
+    this.events = new SocketEvents(this.proxy, mapToTable)
 
-    this.interceptors = new Interceptors(createMsgToDBHandler(mapToTable))
-    this.handleMsgToDB = (msg, db) => {
-      const ret = this.interceptors.apply(msg, db)
+    this.refreshScheduler = new RefreshScheduler(net, mapToTable)
+    this.interceptors = new Interceptors(createMsgToDBHandler(mapToTable, msg => this.refreshScheduler.schedule(msg)))
+    const guard = new MessageGuard(mapToTable)
+    this.handleMsgToDB = (msg, db) => guard.apply(msg, (guarded) => {
+      const ret = this.interceptors.apply(guarded, db)
       return ret instanceof Observable ? ret : Observable.of(null)
-    }
+    }, db)
 
     this.net.initMsgToDBHandler(this.handleMsgToDB)
+
+    // 之前获得的 tcmToken 随旧的 OAuth2 token 一同失效，用刷新后的 token 重新获取，
+    // 断线重连时 client.getToken 即返回新的 tcmToken
+    this.tokenSubscription = fetch.refreshedToken$.subscribe(() => {
+      this._getToken()
+        .then(null, (e: any) => SDKLogger.error(`failed to refresh socket token: ${e && e.message}`))
+    })
   }
 
   destroy() {
+    this.tokenSubscription.unsubscribe()
     this._getUserMeStream.complete()
+    this.connectionState$.complete()
+    this.refreshScheduler.destroy()
   }
 
   debug(): void {
@@ -82,6 +169,30 @@ export class SocketClient {
     this._socketUrl = url
   }
 
+  /**
+   * 断线期间推送的 change/destroy 等消息会丢失，重连后默认刷新所加入房间范围内仍在订阅中的查询
+   * （相应的 Request、StaleWhileRevalidate 策略的缓存会被清除）。
+   * 可以通过 resolver 根据断线时间与房间指定需要刷新的表或缓存。
+   */
+  setResyncResolver(resolver: ResyncResolver): void {
+    this._resyncResolver = resolver
+  }
+
+  /**
+   * refresh 推送（如 `:refresh:tasks/:projectId`）会使相应范围内的查询重新请求，
+   * 第一条推送之后 throttleTime（默认 1000ms）内的推送合并处理。
+   */
+  setRefreshThrottle(throttleTime: number): void {
+    this.refreshScheduler.setThrottleTime(throttleTime)
+  }
+
+  /**
+   * 最近一次连接断开的时间，连接正常时为 null。
+   */
+  getDisconnectedAt(): number | null {
+    return this._disconnectedAt
+  }
+
   async initClient(client: Consumer, userMe?: UserMe): Promise<void> {
     if (!userMe) {
       await this._getToken()
@@ -92,11 +203,21 @@ export class SocketClient {
     this._client._join = this._join.bind(this)
     this._client.onmessage = this._onmessage.bind(this)
     this._client.onopen = this._onopen.bind(this)
+    this._client.onclose = this._onclose.bind(this)
+    const onerror = client.onerror
+    this._client.onerror = (err: Error) => {
+      if (onerror) {
+        onerror.call(client, err)
+      }
+      this._onerror()
+    }
     this._getUserMeStream.subscribe(u => {
       this._client!.getToken = () => {
         return u.tcmToken as string
       }
     })
+    // 在 client 初始化之前订阅的房间
+    this._roomRefs.forEach((_, room) => this.join(room))
   }
 
   initReactiveDB(database: Database) {
@@ -115,7 +236,7 @@ export class SocketClient {
       exp: number
       userId: string
       source: 'teambition'
-    } = JSON.parse(window.atob(auth))
+    } = JSON.parse(decodeBase64(auth))
     const expire = token.exp * 1000 - 3600000
     // token.exp * 1000 - 1 * 60 * 60 * 1000
     if (expire < Date.now()) {
@@ -132,12 +253,33 @@ export class SocketClient {
     if (!this._client) {
       return undefined
     }
+    this._leavedRoom.delete(uri)
     if (this._joinedRoom.has(uri)) {
       return this._client
     }
     return this._client.join.call(this._client, uri)
   }
 
+  /**
+   * 订阅房间，uri 格式同 join。同一房间被多处订阅时只加入一次，
+   * 所有订阅都 unsubscribe 后才离开房间；断线重连后会重新加入。
+   */
+  subscribe(uri: string): RoomSubscription {
+    const refs = this._roomRefs.get(uri) || 0
+    this._roomRefs.set(uri, refs + 1)
+    if (refs === 0) {
+      this.join(uri)
+    }
+    return new RoomSubscription(uri, this._release.bind(this))
+  }
+
+  /**
+   * 房间当前的订阅数。
+   */
+  getRoomRefCount(uri: string): number {
+    return this._roomRefs.get(uri) || 0
+  }
+
   leave(uri: string): Promise<void> {
     if (!this._consumerId) {
       return Promise.reject(new Error(`leave room failed, no consumerId`))
@@ -157,11 +299,91 @@ export class SocketClient {
       })
   }
 
+  private _release(uri: string): Promise<void> {
+    const refs = (this._roomRefs.get(uri) || 1) - 1
+    if (refs > 0) {
+      this._roomRefs.set(uri, refs)
+      return Promise.resolve()
+    }
+    this._roomRefs.delete(uri)
+    if (!this._consumerId) {
+      // 尚未连接，取消排队中的加入
+      this._joinedRoom.delete(uri)
+      this._leavedRoom.add(uri)
+      return Promise.resolve()
+    }
+    return this.leave(uri)
+      .then(() => {
+        // 离开的过程中房间又被订阅
+        if (this._roomRefs.has(uri)) {
+          this.join(uri)
+        }
+      })
+  }
+
   // override Consumer onopen
-  private _onopen(): void {
-    this._joinedRoom.forEach(r => {
-      this.fetch.joinRoom(r, this._consumerId!)
+  private _onopen(): Promise<void> {
+    // 重连后 consumerId 会变化
+    const consumerId = (this._client && this._client['consumerId']) || this._consumerId
+    this._consumerId = consumerId
+    const rooms: string[] = []
+    this._joinedRoom.forEach(r => rooms.push(r))
+    const rejoin = Promise.all(rooms.map(r => this.fetch.joinRoom(r, consumerId!)))
+
+    const disconnectedAt = this._disconnectedAt
+    if (disconnectedAt === null) {
+      this.connectionState$.next('open')
+      return rejoin.then(() => void 0)
+    }
+
+    this.connectionState$.next('resyncing')
+    // 先重新加入房间，再刷新数据，避免错过刷新期间的推送
+    return rejoin
+      .then(() => {
+        const invalidations = this._resyncResolver({ disconnectedAt, rooms }) || this.getRoomInvalidations(rooms)
+        return Observable.forkJoin(invalidations.map(options => this.net.invalidate(options)))
+          .toPromise()
+      })
+      .then(null, (e: any) => SDKLogger.error(`failed to resync after reconnecting: ${e && e.message}`))
+      .then(() => {
+        // 刷新期间再次断线时保持 closed
+        if (this.connectionState$.getValue() === 'resyncing') {
+          this._disconnectedAt = null
+          this.connectionState$.next('open')
+        }
+      })
+  }
+
+  private getRoomInvalidations(rooms: string[]): CacheInvalidation[] {
+    const invalidations: CacheInvalidation[] = []
+    rooms.forEach(room => {
+      const [ type, id ] = room.split('/')
+      if (id) {
+        invalidations.push({ whereValue: id })
+        return
+      }
+      const tableName = this.mapToTable.getTableName(type)
+      if (tableName) {
+        invalidations.push({ tableName })
+      }
     })
+    return invalidations
+  }
+
+  // override Consumer onclose
+  private _onclose(): void {
+    if (this._disconnectedAt === null) {
+      this._disconnectedAt = Date.now()
+    }
+    this.connectionState$.next('closed')
+  }
+
+  // 连接意外断开时 snapper-consumer 只调用 onerror 并自动重连，不会调用 onclose
+  private _onerror(): void {
+    const connection = this._client && this._client['connection']
+    if (!connection || connection.readyState === 'closed') {
+      this._onclose()
+    }
   }
 
   private _connect(): Promise<void> {
@@ -170,6 +392,7 @@ export class SocketClient {
       .toPromise()
       .then(userMe => {
         if (this._client) {
+          this.connectionState$.next('connecting')
           this._client
             .connect(this._socketUrl, {
               path: '/websocket',
@@ -199,6 +422,10 @@ export class SocketClient {
       .then(null, (err: any) => ctx['console']['error'](err))
   }
 
+  /**
+   * tcmToken 由 users/me 获得。若 SDKFetch 设置了 tokenProvider，OAuth2 token
+   * 失效时该请求会先通过它刷新 token；其它请求刷新 token 后也会重新获取 tcmToken。
+   */
   private _getToken() {
     return this.fetch.getUserMe()
       .toPromise()
@@ -209,6 +436,9 @@ export class SocketClient {
 
   private _join(room: string, consumerId: string): Promise<any> {
     this._consumerId = consumerId
+    if (this._leavedRoom.has(room)) {
+      return Promise.resolve()
+    }
     return this.fetch.joinRoom(room, consumerId)
       .then(() => {
         this._joinedRoom.add(room)
@@ -0,0 +1,134 @@
+import 'rxjs/add/operator/publish'
+import { Observable } from 'rxjs/Observable'
+import { Observer } from 'rxjs/Observer'
+import { ParsedWSMsg } from '../utils'
+import { TableInfoByMessageType } from './MapToTable'
+import { Proxy } from './Middleware'
+import {
+  ActivitySchema, CollectionSchema, CustomFieldSchema, CustomFieldLinkSchema,
+  CustomRoleSchema, DefaultRoleSchema, EventSchema, FileSchema, GroupSchema, LikeSchema, MemberSchema,
+  MessageSchema, ObjectLinkSchema, OrganizationSchema, PostSchema, PreferenceSchema, ProjectSchema,
+  ProjectTagSchema, RoomSchema, ScenarioFieldConfigSchema, SmartGroupSchema, SprintSchema, StageSchema,
+  SubtaskSchema, TagSchema, TapChart, TapDashboard, TaskSchema, TaskflowSchema,
+  TaskflowStatusSchema, TasklistSchema, TeamSchema, UserMe
+} from '../schemas'
+import { TapGenericFilterResponse } from 'teambition-types'
+
+/**
+ * 推送消息中的模型与数据结构的对应，键为表名首字母小写。
+ * 推送的类型（如 'tasks'、'works'）经 TableAlias 及单复数转换后对应到表，
+ * 因此 on('change', 'file') 也会收到类型为 work 的推送。
+ * schemaColl 中增加表时，请在这里添加相应条目，test/sockets/socketEvents.spec.ts 会检查两者是否一致。
+ */
+export interface SocketModels {
+  activity: ActivitySchema
+  collection: CollectionSchema
+  customField: CustomFieldSchema
+  customFieldLink: CustomFieldLinkSchema
+  customRole: CustomRoleSchema
+  defaultRole: DefaultRoleSchema
+  event: EventSchema
+  file: FileSchema
+  group: GroupSchema
+  like: LikeSchema
+  member: MemberSchema
+  message: MessageSchema
+  objectLink: ObjectLinkSchema
+  organization: OrganizationSchema
+  post: PostSchema
+  preference: PreferenceSchema
+  project: ProjectSchema
+  projectTag: ProjectTagSchema
+  room: RoomSchema
+  scenarioFieldConfig: ScenarioFieldConfigSchema
+  smartGroup: SmartGroupSchema
+  sprint: SprintSchema
+  stage: StageSchema
+  subtask: SubtaskSchema
+  tag: TagSchema
+  tapChart: TapChart<TapGenericFilterResponse>
+  tapDashboard: TapDashboard<TapGenericFilterResponse>
+  task: TaskSchema
+  taskflow: TaskflowSchema
+  taskflowStatus: TaskflowStatusSchema
+  tasklist: TasklistSchema
+  team: TeamSchema
+  user: UserMe
+}
+
+export type SocketModelType = keyof SocketModels
+
+export type SocketModelId<T> = T extends { _id: infer I } ? I : string
+
+/**
+ * 各类推送对应的事件内容。批量推送（如 data 为数组的 change、remove）会被拆分为逐条的事件。
+ */
+export interface SocketEventPayloads<T> {
+  new: { id: SocketModelId<T>, data: T }
+  change: { id: SocketModelId<T>, patch: Partial<T> }
+  destroy: { id: SocketModelId<T> }
+  remove: { id: SocketModelId<T> }
+}
+
+export type SocketEventMethod = keyof SocketEventPayloads<{}>
+
+export type SocketEvent<M extends SocketEventMethod, K extends SocketModelType> =
+  SocketEventPayloads<SocketModels[K]>[M] & { source: string }
+
+const toEvents = (msg: ParsedWSMsg, pkName: string): { id: any, [key: string]: any }[] => {
+  const { id, data, source } = msg
+  switch (msg.method) {
+    case 'new':
+      return (Array.isArray(data) ? data : [data])
+        .map((item: any) => ({ id: item[pkName] || id, data: item, source }))
+    case 'change':
+      return Array.isArray(data)
+        ? data.map((item: any) => ({ id: item[pkName], patch: item, source }))
+        : [{ id, patch: data, source }]
+    case 'destroy':
+      return [{ id, source }]
+    case 'remove':
+      return (Array.isArray(data) ? data : [data])
+        .map((pk: any) => ({ id: pk, source }))
+    default:
+      return []
+  }
+}
+
+/**
+ * 按模型类型订阅数据推送，结果带有对应 schema 的类型：
+ *
+ * sdk.socketEvents.on('change', 'task')
+ *   .subscribe(({ id, patch }) => ...) // id: TaskId, patch: Partial<TaskSchema>
+ */
+export class SocketEvents {
+
+  private published: Map<string, Observable<any>> = new Map()
+
+  constructor(private proxy: Proxy, private mapToTable: TableInfoByMessageType) {}
+
+  on<M extends SocketEventMethod, K extends SocketModelType>(method: M, model: K): Observable<SocketEvent<M, K>> {
+    const tabName = this.mapToTable.getTableName(model)
+    if (!tabName) {
+      throw new TypeError(`Table not found for socket model ${model}`)
+    }
+    const key = `${method}:${tabName}`
+    if (!this.published.has(key)) {
+      const pkName = this.mapToTable.getTableInfo(tabName)!.pkName
+      const source = Observable.create((observer: Observer<SocketEvent<M, K>>) => {
+        const off = this.proxy.register((msg: ParsedWSMsg) => {
+          if (msg.method !== method || !msg.type || this.mapToTable.getTableName(msg.type) !== tabName) {
+            return
+          }
+          toEvents(msg, pkName).forEach(event => observer.next(event as SocketEvent<M, K>))
+        })
+        return () => {
+          off()
+          this.published.delete(key)
+        }
+      })
+      this.published.set(key, source.publish().refCount())
+    }
+    return this.published.get(key)!
+  }
+}
@@ -1,7 +1,23 @@
-export { SocketClient as Client } from './SocketClient'
+export {
+  SocketClient as Client,
+  ConnectionState,
+  ResyncContext,
+  ResyncResolver,
+  RoomSubscription
+} from './SocketClient'
 
 export { mapMsgTypeToTable } from './MapToTable'
 
+export {
+  SocketEvents as Events,
+  SocketModels,
+  SocketModelType,
+  SocketModelId,
+  SocketEventPayloads,
+  SocketEventMethod,
+  SocketEvent
+} from './SocketEvents'
+
 export {
   Proxy,
   Interceptors as Interceptors,
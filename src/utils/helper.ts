@@ -204,3 +204,14 @@ export const hasMorePages = <T>(
 
   return data.length >= pageSize * (nextPage - 1)
 }
+
+/**
+ * 解码 base64（及 JWT 使用的 base64url）字符串。浏览器中使用 atob，Node.js 中使用 Buffer。
+ */
+export function decodeBase64(input: string): string {
+  const normalized = input.replace(/-/g, '+').replace(/_/g, '/')
+  if (typeof atob === 'function') {
+    return atob(normalized)
+  }
+  return Buffer.from(normalized, 'base64').toString('binary')
+}
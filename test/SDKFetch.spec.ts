@@ -1,10 +1,11 @@
 import { expect } from 'chai'
 import { Observable, Scheduler } from 'rxjs'
 import { describe, it, beforeEach, afterEach } from 'tman'
-import { SDKFetch, forEach, Http } from '.'
+import { SDKFetch, forEach, Http, HttpError$, HttpErrorMessage, getResponseValidator, ConditionalCache } from '.'
 import { clone } from './'
 
 import { defaultSDKFetchHeaders } from '../src/SDKFetch'
+import { GetBatcher } from '../src/Net/GetBatcher'
 
 const fetchMock = require('fetch-mock')
 
@@ -433,3 +434,622 @@ describe('SDKFetch.buildQuery', () => {
     })).to.equal('?q=%E4%BD%A0(ni)%E5%A5%BD(hao)')
   })
 })
+
+describe('SDKFetch interceptors', () => {
+
+  let sdkFetch: SDKFetch
+  const apiHost = 'https://www.teambition.com/api'
+  const testUrl = `${apiHost}/${path}`
+
+  beforeEach(() => {
+    sdkFetch = new SDKFetch()
+  })
+
+  afterEach(() => {
+    fetchMock.restore()
+  })
+
+  allowedMethods.forEach((httpMethod: string) => {
+    it(`onRequest should be able to change url, headers and body: ${httpMethod}`, function* () {
+      const body = { body: 'body' }
+      fetchMock.mock(new RegExp(`${apiHost}/rewritten`), {})
+
+      sdkFetch.interceptors.append({
+        onRequest: (request) => ({
+          ...request,
+          url: request.url.replace(path, 'rewritten'),
+          headers: { ...request.headers, 'X-Trace-Id': '2333' },
+          body: request.body && { ...request.body, signed: true }
+        })
+      })
+
+      yield sdkFetch[httpMethod](path, httpMethod === 'get' ? null : body)
+        .subscribeOn(Scheduler.asap)
+        .do(() => {
+          expect(fetchMock.lastUrl()).to.match(new RegExp(`^${apiHost}/rewritten`))
+          expect(fetchMock.lastOptions().headers).to.deep.equal({
+            ...defaultSDKFetchHeaders(), 'X-Trace-Id': '2333'
+          })
+          if (httpMethod !== 'get') {
+            expect(fetchMock.lastOptions().body).to.deep.equal({ ...body, signed: true })
+          }
+        })
+    })
+  })
+
+  allowedMethods.forEach((httpMethod: string) => {
+    it(`onRequest should be able to short-circuit with a synthetic response: ${httpMethod}`, function* () {
+      const synthetic = { synthetic: true }
+      fetchMock.mock(new RegExp(testUrl), {})
+
+      sdkFetch.interceptors.append({
+        onRequest: () => Observable.of(synthetic)
+      })
+
+      yield sdkFetch[httpMethod](path)
+        .subscribeOn(Scheduler.asap)
+        .do((resp: any) => {
+          expect(resp).to.deep.equal(synthetic)
+          expect(fetchMock.called()).to.be.false
+        })
+    })
+  })
+
+  it('onResponse should run in order and be able to change result', function* () {
+    fetchMock.mock(new RegExp(testUrl), { value: 1 })
+
+    sdkFetch.interceptors.append({
+      onResponse: (resp: any) => ({ value: resp.value + 1 })
+    })
+    sdkFetch.interceptors.append({
+      onResponse: (resp: any) => ({ value: resp.value * 10 })
+    })
+
+    yield sdkFetch.get(path)
+      .subscribeOn(Scheduler.asap)
+      .do((resp: any) => {
+        expect(resp).to.deep.equal({ value: 20 })
+      })
+  })
+
+  it('interceptors should apply to deduplicated get', function* () {
+    fetchMock.mock(new RegExp(testUrl), { value: 1 })
+
+    sdkFetch.interceptors.append({
+      onRequest: (request) => ({ ...request, headers: { ...request.headers, 'X-Trace-Id': '2333' } }),
+      onResponse: (resp: any) => ({ value: resp.value + 1 })
+    })
+
+    const getA = sdkFetch.get(path, { value: 'interceptors' })
+    const anotherGetA = sdkFetch.get(path, { value: 'interceptors' })
+
+    expect(anotherGetA).to.equal(getA)
+
+    yield Observable.forkJoin(getA, anotherGetA)
+      .subscribeOn(Scheduler.asap)
+      .do(([respA, anotherRespA]) => {
+        expect(respA).to.deep.equal({ value: 2 })
+        expect(anotherRespA).to.deep.equal({ value: 2 })
+        expect(fetchMock.lastOptions().headers['X-Trace-Id']).to.equal('2333')
+      })
+  })
+
+  it('onError should be able to rewrite error and recover', function* () {
+    fetchMock.mock(new RegExp(testUrl), { status: 400, body: {} })
+
+    sdkFetch.interceptors.append({
+      onError: (err) => ({ ...err, body: 'rewritten' })
+    })
+    const removal = sdkFetch.interceptors.append({
+      onError: (err) => Observable.of(err.body)
+    })
+
+    yield sdkFetch.post(path, {})
+      .subscribeOn(Scheduler.asap)
+      .do((resp: any) => {
+        expect(resp).to.equal('rewritten')
+      })
+
+    removal()
+
+    yield sdkFetch.post(path, {})
+      .catch((err: any) => {
+        expect(err.body).to.equal('rewritten')
+        return Observable.of(null)
+      })
+      .subscribeOn(Scheduler.asap)
+  })
+})
+
+describe('SDKFetch token refresh', () => {
+
+  let sdkFetch: SDKFetch
+  let providerCalls: number
+  const apiHost = 'https://www.teambition.com/api'
+
+  // 仅接受 new_token，其他 token 返回 401
+  const mockAuthorizedResponse = () => {
+    fetchMock.mock(new RegExp(apiHost), (_: string, opts: any) => {
+      return opts.headers.Authorization === 'OAuth2 new_token'
+        ? { body: { ok: true } }
+        : { status: 401, body: {} }
+    })
+  }
+
+  beforeEach(() => {
+    providerCalls = 0
+    sdkFetch = new SDKFetch()
+      .setToken('expired_token')
+      .setTokenProvider(() => {
+        providerCalls++
+        return Promise.resolve('new_token')
+      })
+  })
+
+  afterEach(() => {
+    fetchMock.restore()
+  })
+
+  allowedMethods.forEach((httpMethod: string) => {
+    it(`should refresh token and replay the request on 401: ${httpMethod}`, function* () {
+      mockAuthorizedResponse()
+
+      yield sdkFetch[httpMethod](`${path}/${httpMethod}`)
+        .subscribeOn(Scheduler.asap)
+        .do((resp: any) => {
+          expect(resp).to.deep.equal({ ok: true })
+          expect(sdkFetch.getToken()).to.equal('new_token')
+          expect(providerCalls).to.equal(1)
+          expect(fetchMock.calls().matched.length).to.equal(2)
+        })
+    })
+  })
+
+  it('concurrent failing requests should wait on one refresh', function* () {
+    mockAuthorizedResponse()
+
+    yield Observable.forkJoin(
+      sdkFetch.get(`${path}/a`),
+      sdkFetch.get(`${path}/b`),
+      sdkFetch.post(`${path}/c`)
+    )
+      .subscribeOn(Scheduler.asap)
+      .do((resps) => {
+        expect(resps).to.deep.equal([{ ok: true }, { ok: true }, { ok: true }])
+        expect(providerCalls).to.equal(1)
+      })
+  })
+
+  it('should not emit to HttpError$ when the replayed request succeeds', function* () {
+    const errors: any[] = []
+    // 只关注本用例的请求，忽略之前用例延迟发送到 HttpError$ 的错误
+    const subscription = HttpError$
+      .filter(e => /\/error\$$/.test(e.url))
+      .subscribe(e => errors.push(e))
+    mockAuthorizedResponse()
+
+    yield sdkFetch.post(`${path}/error$`)
+      .subscribeOn(Scheduler.asap)
+
+    yield Observable.timer(20)
+    subscription.unsubscribe()
+
+    expect(errors.length).to.equal(0)
+  })
+
+  it('should error with the original 401 when the provider fails', function* () {
+    mockAuthorizedResponse()
+    sdkFetch.setTokenProvider(() => Promise.reject(new Error('cannot refresh')))
+
+    yield sdkFetch.post(path)
+      .catch((err: HttpErrorMessage) => {
+        expect(err.error.status).to.equal(401)
+        return Observable.of(null)
+      })
+      .subscribeOn(Scheduler.asap)
+  })
+
+  it('should not refresh token for request with its own token', function* () {
+    mockAuthorizedResponse()
+
+    yield sdkFetch.post(path, {}, { token: 'per_request_token' })
+      .catch((err: HttpErrorMessage) => {
+        expect(err.error.status).to.equal(401)
+        expect(providerCalls).to.equal(0)
+        return Observable.of(null)
+      })
+      .subscribeOn(Scheduler.asap)
+  })
+})
+
+describe('SDKFetch scheduler', () => {
+
+  let sdkFetch: SDKFetch
+  const apiHost = 'https://www.teambition.com/api'
+
+  beforeEach(() => {
+    sdkFetch = new SDKFetch()
+    sdkFetch.scheduler.configure({ maxConcurrent: 1 })
+  })
+
+  afterEach(() => {
+    fetchMock.restore()
+  })
+
+  it('writes should jump ahead of queued reads', function* () {
+    const sent: string[] = []
+    fetchMock.mock(new RegExp(apiHost), (url: string, opts: any) => {
+      sent.push(`${opts.method} ${url.replace(/\?.*$/, '')}`)
+      return { body: {} }
+    })
+
+    yield Observable.forkJoin(
+      sdkFetch.get(`${path}/first`, { value: 'scheduler' }),
+      sdkFetch.get(`${path}/prefetch`, { value: 'scheduler' }, { priority: 'low' }),
+      sdkFetch.get(`${path}/read`, { value: 'scheduler' }),
+      sdkFetch.put(`${path}/write`)
+    )
+      .subscribeOn(Scheduler.asap)
+      .do(() => {
+        expect(sent).to.deep.equal([
+          `get ${apiHost}/${path}/first`,
+          `put ${apiHost}/${path}/write`,
+          `get ${apiHost}/${path}/read`,
+          `get ${apiHost}/${path}/prefetch`
+        ])
+        expect(sdkFetch.scheduler.getState().active).to.equal(0)
+      })
+  })
+})
+
+describe('SDKFetch batching', () => {
+
+  let sdkFetch: SDKFetch
+  const apiHost = 'https://www.teambition.com/api'
+
+  beforeEach(() => {
+    sdkFetch = new SDKFetch().setBatching(true)
+  })
+
+  afterEach(() => {
+    fetchMock.restore()
+  })
+
+  it('should coalesce single-id lookups within a tick into one bulk request', function* () {
+    fetchMock.mock(new RegExp(`${apiHost}/tasks\\?`), [
+      { _id: 'task2', content: 'b' },
+      { _id: 'task1', content: 'a' }
+    ])
+
+    yield Observable.forkJoin(
+      sdkFetch.getOne('tasks', 'task1'),
+      sdkFetch.getOne('tasks', 'task2'),
+      sdkFetch.getOne('tasks', 'task1')
+    )
+      .subscribeOn(Scheduler.asap)
+      .do(([task1, task2, task1Again]: any[]) => {
+        expect(task1).to.deep.equal({ _id: 'task1', content: 'a' })
+        expect(task2).to.deep.equal({ _id: 'task2', content: 'b' })
+        expect(task1Again).to.deep.equal(task1)
+        expect(fetchMock.calls().matched.length).to.equal(1)
+        expect(fetchMock.lastUrl()).to.match(/tasks\?_ids=task1%2Ctask2&_=/)
+      })
+  })
+
+  it('should fall back to a single request for ids missing in the bulk result', function* () {
+    fetchMock.mock(new RegExp(`${apiHost}/posts\\?`), [{ _id: 'post1' }])
+    fetchMock.mock(new RegExp(`${apiHost}/posts/post2`), { _id: 'post2' })
+
+    yield Observable.forkJoin(
+      sdkFetch.getOne('posts', 'post1'),
+      sdkFetch.getOne('posts', 'post2')
+    )
+      .subscribeOn(Scheduler.asap)
+      .do((posts: any[]) => {
+        expect(posts).to.deep.equal([{ _id: 'post1' }, { _id: 'post2' }])
+        expect(fetchMock.calls().matched.length).to.equal(2)
+      })
+  })
+
+  it('should not coalesce lookups with different queries', function* () {
+    fetchMock.mock(new RegExp(`${apiHost}/works`), (url: string) => {
+      return url.indexOf('_ids') !== -1 ? [{ _id: 'file1' }, { _id: 'file2' }] : { _id: 'file3' }
+    })
+
+    yield Observable.forkJoin(
+      sdkFetch.getOne('works', 'file1', { fields: 'fileName' }),
+      sdkFetch.getOne('works', 'file2', { fields: 'fileName' }),
+      sdkFetch.getOne('works', 'file3')
+    )
+      .subscribeOn(Scheduler.asap)
+      .do(() => {
+        const urls: string[] = fetchMock.calls().matched.map(([url]: any[]) => url)
+        expect(urls.length).to.equal(2)
+        expect(urls[0]).to.match(/works\?fields=fileName&_ids=file1%2Cfile2&_=/)
+        expect(urls[1]).to.match(/works\/file3\?_=/)
+      })
+  })
+
+  it('should request one by one for types without bulk endpoint', function* () {
+    sdkFetch.setBatchEndpoint('tasks', false)
+    fetchMock.mock(new RegExp(`${apiHost}/tasks/`), (url: string) => ({ _id: url.split('/').pop()!.split('?')[0] }))
+
+    yield Observable.forkJoin(
+      sdkFetch.getOne('tasks', 'task3'),
+      sdkFetch.getOne('tasks', 'task4')
+    )
+      .subscribeOn(Scheduler.asap)
+      .do((tasks: any[]) => {
+        expect(tasks).to.deep.equal([{ _id: 'task3' }, { _id: 'task4' }])
+        expect(fetchMock.calls().matched.length).to.equal(2)
+      })
+  })
+
+  it('getTask should be batched when batching is enabled', function* () {
+    fetchMock.mock(new RegExp(`${apiHost}/tasks\\?`), [{ _id: 'task5' }, { _id: 'task6' }])
+
+    yield Observable.forkJoin(
+      sdkFetch.getTask('task5' as any),
+      sdkFetch.getTask('task6' as any)
+    )
+      .subscribeOn(Scheduler.asap)
+      .do(() => {
+        expect(fetchMock.calls().matched.length).to.equal(1)
+      })
+  })
+})
+
+describe('GetBatcher', () => {
+
+  const endpoint = { path: 'tasks' }
+
+  // 记录请求是否被中止的 Observable，在 delay 毫秒后推送 value
+  const trackedRequest = (value: any, delay: number, aborted: string[], name: string) =>
+    Observable.create((observer: any) => {
+      let done = false
+      const timer = setTimeout(() => {
+        done = true
+        observer.next(value)
+        observer.complete()
+      }, delay)
+      return () => {
+        clearTimeout(timer)
+        if (!done) {
+          aborted.push(name)
+        }
+      }
+    })
+
+  it('should abort the bulk request when all subscribers unsubscribe', function* () {
+    const aborted: string[] = []
+    const batcher = new GetBatcher(
+      () => trackedRequest([{ _id: 'a' }, { _id: 'b' }], 20, aborted, 'batch'),
+      () => Observable.never()
+    )
+    const first = batcher.load('tasks', endpoint, 'tasks', 'a').subscribe()
+    const second = batcher.load('tasks', endpoint, 'tasks', 'b').subscribe()
+    yield Observable.timer(5)
+
+    first.unsubscribe()
+    expect(aborted).to.deep.equal([])
+    second.unsubscribe()
+    expect(aborted).to.deep.equal(['batch'])
+  })
+
+  it('should abort the fallback request when its subscriber unsubscribes', function* () {
+    const aborted: string[] = []
+    const batcher = new GetBatcher(
+      () => Observable.of([{ _id: 'a' }]),
+      (_, id) => trackedRequest({ _id: id }, 20, aborted, id)
+    )
+    const results: any[] = []
+    batcher.load('tasks', endpoint, 'tasks', 'a').subscribe(r => results.push(r))
+    const missing = batcher.load('tasks', endpoint, 'tasks', 'b').subscribe()
+    yield Observable.timer(5)
+
+    missing.unsubscribe()
+    expect(results).to.deep.equal([{ _id: 'a' }])
+    expect(aborted).to.deep.equal(['b'])
+  })
+
+  it('should fall back to single requests when the bulk response is not an array', function* () {
+    const batcher = new GetBatcher(
+      () => Observable.of({ message: 'unexpected' } as any),
+      (_, id) => Observable.of({ _id: id })
+    )
+
+    yield Observable.forkJoin(
+      batcher.load('tasks', endpoint, 'tasks', 'a'),
+      batcher.load('tasks', endpoint, 'tasks', 'b')
+    )
+      .do(results => expect(results).to.deep.equal([{ _id: 'a' }, { _id: 'b' }]))
+  })
+})
+
+describe('SDKFetch conditional requests', () => {
+
+  let sdkFetch: SDKFetch
+  const apiHost = 'https://www.teambition.com/api'
+  const urlPattern = new RegExp(`${apiHost}/conditional`)
+  const responseData = { _id: 'conditional', content: 'a' }
+
+  beforeEach(() => {
+    sdkFetch = new SDKFetch().setConditionalRequests(true)
+  })
+
+  afterEach(() => {
+    fetchMock.restore()
+  })
+
+  it('should send If-None-Match and return the cached body on 304', function* () {
+    fetchMock.mock(urlPattern, (_: string, opts: any) => opts.headers['If-None-Match'] === '"v1"'
+      ? { status: 304 }
+      : { body: JSON.stringify(responseData), headers: { ETag: '"v1"' } }
+    )
+    const errors: HttpErrorMessage[] = []
+    const subscription = HttpError$.filter(e => urlPattern.test(e.url)).subscribe(e => errors.push(e))
+
+    const first = yield sdkFetch.get('conditional')
+      .subscribeOn(Scheduler.asap)
+      .do(resp => {
+        expect(resp).to.deep.equal(responseData)
+        expect(getResponseValidator(resp)).to.deep.equal({
+          url: `${apiHost}/conditional`, etag: '"v1"', lastModified: undefined, notModified: false
+        })
+      })
+
+    yield sdkFetch.get('conditional')
+      .subscribeOn(Scheduler.asap)
+      .do(resp => {
+        expect(resp).to.deep.equal(responseData)
+        expect(resp).to.not.equal(first)
+        expect(getResponseValidator(resp)!.notModified).to.be.true
+        expect(fetchMock.calls().matched.length).to.equal(2)
+      })
+    // 之前的响应体上的验证信息不受影响
+    expect(getResponseValidator(first)!.notModified).to.be.false
+
+    yield Observable.timer(20)
+    subscription.unsubscribe()
+    expect(errors.length).to.equal(0)
+  })
+
+  it('should drop the least recently used responses over the limit', () => {
+    const cache = new ConditionalCache(2)
+    cache.update('a', { ETag: '"a"' }, { _id: 'a' })
+    cache.update('b', { ETag: '"b"' }, { _id: 'b' })
+    cache.getNotModified('a')
+    cache.update('c', { ETag: '"c"' }, { _id: 'c' })
+
+    expect(cache.getRequestHeaders('a')).to.deep.equal({ 'If-None-Match': '"a"' })
+    expect(cache.getRequestHeaders('b')).to.deep.equal({})
+    expect(cache.getRequestHeaders('c')).to.deep.equal({ 'If-None-Match': '"c"' })
+  })
+
+  it('should send restored validators only once and return an empty body on 304', function* () {
+    fetchMock.mock(urlPattern, (_: string, opts: any) => opts.headers['If-None-Match'] === '"v1"'
+      ? { status: 304 }
+      : { body: JSON.stringify(responseData), headers: { ETag: '"v2"' } }
+    )
+    sdkFetch.restoreResponseValidators([{ url: `${apiHost}/conditional`, etag: '"v1"' }])
+
+    yield sdkFetch.get('conditional')
+      .subscribeOn(Scheduler.asap)
+      .do(resp => {
+        expect(resp).to.deep.equal({})
+        expect(getResponseValidator(resp)!.notModified).to.be.true
+      })
+    // 恢复的验证信息没有响应体，之后的请求获取完整的响应
+    yield sdkFetch.get('conditional')
+      .subscribeOn(Scheduler.asap)
+      .do(resp => {
+        expect(fetchMock.lastOptions().headers['If-None-Match']).to.be.undefined
+        expect(resp).to.deep.equal(responseData)
+      })
+  })
+
+  it('should send If-Modified-Since for responses with Last-Modified', function* () {
+    const lastModified = 'Wed, 21 Oct 2015 07:28:00 GMT'
+    fetchMock.mock(urlPattern, { body: JSON.stringify(responseData), headers: { 'Last-Modified': lastModified } })
+
+    yield sdkFetch.get('conditional', null, { includeHeaders: true })
+      .subscribeOn(Scheduler.asap)
+      .do(resp => expect(resp.body).to.deep.equal(responseData))
+    yield sdkFetch.get('conditional')
+      .subscribeOn(Scheduler.asap)
+      .do(() => expect(fetchMock.lastOptions().headers['If-Modified-Since']).to.equal(lastModified))
+  })
+
+  it('should not send conditional headers when disabled', function* () {
+    sdkFetch.setConditionalRequests(false)
+    fetchMock.mock(urlPattern, { body: JSON.stringify(responseData), headers: { ETag: '"v1"' } })
+
+    yield sdkFetch.get('conditional').subscribeOn(Scheduler.asap)
+    yield sdkFetch.get('conditional')
+      .subscribeOn(Scheduler.asap)
+      .do(() => expect(fetchMock.lastOptions().headers['If-None-Match']).to.be.undefined)
+  })
+})
+
+describe('SDKFetch instances', () => {
+
+  const apiHost = 'https://www.teambition.com/api'
+  const urlPattern = new RegExp(`${apiHost}/instances`)
+  let userA: SDKFetch
+  let userB: SDKFetch
+
+  beforeEach(() => {
+    userA = new SDKFetch(apiHost, 'tokenA').setRetry(false)
+    userB = new SDKFetch(apiHost, 'tokenB').setRetry(false)
+  })
+
+  afterEach(() => {
+    fetchMock.restore()
+  })
+
+  it('should not share in-flight get requests between instances', function* () {
+    fetchMock.mock(urlPattern, (_: string, opts: any) => ({ body: { token: opts.headers.Authorization } }))
+
+    yield Observable.forkJoin(userA.get('instances'), userB.get('instances'))
+      .subscribeOn(Scheduler.asap)
+      .do(([a, b]: any[]) => {
+        expect(a).to.deep.equal({ token: 'OAuth2 tokenA' })
+        expect(b).to.deep.equal({ token: 'OAuth2 tokenB' })
+        expect(fetchMock.calls().matched.length).to.equal(2)
+      })
+  })
+
+  it('httpError$ should only emit errors of its own instance', function* () {
+    fetchMock.mock(urlPattern, { status: 404, body: {} })
+    const errorsA: HttpErrorMessage[] = []
+    const errorsB: HttpErrorMessage[] = []
+    const global: HttpErrorMessage[] = []
+    const subscriptions = [
+      userA.httpError$.subscribe(e => errorsA.push(e)),
+      userB.httpError$.subscribe(e => errorsB.push(e)),
+      HttpError$.filter(e => urlPattern.test(e.url)).subscribe(e => global.push(e))
+    ]
+
+    yield userA.get('instances')
+      .catch(() => Observable.of(null))
+      .subscribeOn(Scheduler.asap)
+
+    yield Observable.timer(20)
+    subscriptions.forEach(s => s.unsubscribe())
+    expect(errorsA.length).to.equal(1)
+    expect(errorsB.length).to.equal(0)
+    expect(global.length).to.equal(1)
+  })
+
+  it('setFetchTail should only affect its own instance', function* () {
+    fetchMock.mock(urlPattern, {})
+    userA.setFetchTail('666')
+
+    yield userB.get('instances').subscribeOn(Scheduler.asap)
+    expect(fetchMock.lastUrl()).to.not.match(/_=666$/)
+
+    yield userA.get('instances').subscribeOn(Scheduler.asap)
+    expect(fetchMock.lastUrl()).to.match(/\?_=666$/)
+  })
+
+  it('deprecated SDKFetch.fetchTail should apply to instances without their own tail', function* () {
+    fetchMock.mock(urlPattern, {})
+    userA.setFetchTail('666')
+    SDKFetch.fetchTail = '777'
+
+    try {
+      yield userB.get('instances').subscribeOn(Scheduler.asap)
+      expect(fetchMock.lastUrl()).to.match(/\?_=777$/)
+      yield userA.get('instances').subscribeOn(Scheduler.asap)
+      expect(fetchMock.lastUrl()).to.match(/\?_=666$/)
+    } finally {
+      SDKFetch.fetchTail = undefined
+    }
+  })
+
+  it('deprecated SDKFetch.FetchStack should forward to the first created instance', () => {
+    const stack = SDKFetch.FetchStack
+    expect(stack).to.be.instanceof(Map)
+    expect(stack).to.equal(SDKFetch['defaultInstance']['fetchStack'])
+  })
+})
@@ -1,4 +1,4 @@
-import { describe, before, beforeEach, afterEach, it, after } from 'tman'
+import { describe, beforeEach, afterEach, it } from 'tman'
 import { Scheduler } from 'rxjs'
 import { expect } from 'chai'
 
@@ -9,18 +9,11 @@ import { mock, expectToDeepEqualForFieldsOfTheExpected } from '../utils'
 const fetchMock = require('fetch-mock')
 
 describe('CustomFieldLinkApi request spec: ', () => {
-  before(() => {
-    SDKFetch.fetchTail = '666'
-  })
-
-  after(() => {
-    SDKFetch.fetchTail = undefined
-  })
-
   let sdkFetch: SDKFetch
 
   beforeEach(() => {
     sdkFetch = new SDKFetch()
+    sdkFetch.setFetchTail('666')
     sdkFetch.setAPIHost('')
   })
 
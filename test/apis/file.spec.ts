@@ -1,6 +1,12 @@
-import { describe, beforeEach, afterEach, it } from 'tman'
+import { describe, before, after, beforeEach, afterEach, it } from 'tman'
 import { expect } from 'chai'
-import { createSdk, SDK, SocketMock, FileSchema } from '../index'
+import { Observable } from 'rxjs'
+import * as nodeHttp from 'http'
+import {
+  createSdk, SDK, SocketMock, FileSchema, HttpErrorMessage, TransportRequest, defaultUploadHost, getThumbnailUrl,
+  TransferCancelledError, RequestMetric
+} from '../index'
+import { createNodeTransport } from '../../src/node-transport'
 import * as Fixture from '../fixtures/files.fixture'
 import { mock, restore, looseDeepEqual, expectToDeepEqualForFieldsOfTheExpected } from '../utils'
 
@@ -81,3 +87,387 @@ describe('FileApi socket spec', () => {
       .do((r) => expect(r.length).to.equal(0))
   })
 })
+
+describe('FileApi upload spec', () => {
+  let sdk: SDK
+  let requests: TransportRequest[]
+  let failChunk: number | null
+  let failStatus: number
+  let failCreate: boolean
+  let pendingChunk: number | null
+  let aborted: boolean
+
+  const fileKey = 'fileKey'
+  const chunkSize = 4
+  const [ fixture ] = Fixture.projectFiles
+  const respond = (body: any, status = 200) => Observable.of({ status, statusText: '', headers: {}, body: JSON.stringify(body) })
+
+  const transport = (request: TransportRequest) => {
+    requests.push(request)
+    const { url } = request
+    if (url === `${defaultUploadHost}/upload/chunk`) {
+      if (failCreate) {
+        failCreate = false
+        return respond({ name: 'BadGateway', message: 'failed' }, 502)
+      }
+      return respond({ fileKey, fileName: 'upload.txt', fileSize: 10, chunkSize, chunks: 3, uploadedChunks: [] })
+    }
+    const chunkMatch = url.match(/upload\/chunk\/fileKey\?chunk=(\d+)$/)
+    if (chunkMatch) {
+      const chunk = Number(chunkMatch[1])
+      if (chunk === pendingChunk) {
+        return new Observable<any>(() => () => aborted = true)
+      }
+      if (chunk === failChunk) {
+        failChunk = null
+        return respond({ name: 'InternalServerError', message: 'failed' }, failStatus)
+      }
+      return respond({})
+    }
+    if (url === `${defaultUploadHost}/upload/chunk/${fileKey}`) {
+      return respond({ fileKey, fileName: 'upload.txt', fileType: 'txt', fileSize: 10, fileCategory: 'text' })
+    }
+    if (url.indexOf('/works') > 0) {
+      return respond([ fixture ])
+    }
+    if (url.indexOf('/projects/') > 0) {
+      return respond({ _id: fixture._projectId, _rootCollectionId: fixture._parentId })
+    }
+    return respond({ name: 'NotFound', message: url }, 404)
+  }
+
+  const chunkRequests = () => requests.filter(r => /\?chunk=/.test(r.url))
+
+  beforeEach(() => {
+    sdk = createSdk()
+    sdk.fetch.setTransport(transport)
+    requests = []
+    failChunk = null
+    failStatus = 500
+    failCreate = false
+    pendingChunk = null
+    aborted = false
+  })
+
+  afterEach(() => {
+    sdk.fetch.setTransport(undefined)
+    restore(sdk)
+  })
+
+  it('should upload file by chunks and create file in project', function* () {
+    const upload = sdk.uploadFile({ _projectId: fixture._projectId }, new Blob(['0123456789']), {
+      fileName: 'upload.txt',
+      uploadAuth: 'striker'
+    })
+    const progress: number[] = []
+    upload.progress$.subscribe(p => progress.push(p.loaded))
+
+    yield upload.start()
+      .do(file => expect(file._id).to.equal(fixture._id))
+
+    const chunks = chunkRequests()
+    expect(chunks.map(r => r.url.split('=')[1]).sort()).to.deep.equal(['1', '2', '3'])
+    chunks.forEach(r => {
+      expect(r.headers.Authorization).to.equal('striker')
+      expect(r.body).to.be.instanceof(Blob)
+    })
+    expect((chunks[2].body as Blob).size).to.equal(2)
+    expect(progress[progress.length - 1]).to.equal(10)
+
+    const [ works ] = requests.filter(r => /\/works$/.test(r.url))
+    expect(JSON.parse(works.body as string)._parentId).to.equal(fixture._parentId)
+    expect(works.headers.Authorization).to.not.equal('striker')
+
+    yield sdk.database.get<FileSchema>('File', { where: { _id: fixture._id } })
+      .values()
+      .do(([r]) => expect(r._id).to.equal(fixture._id))
+  })
+
+  it('should resume from the failed chunk', function* () {
+    const upload = sdk.uploadFile({ _collectionId: fixture._parentId }, new Blob(['0123456789']), {
+      uploadAuth: 'striker',
+      concurrency: 1
+    })
+    failChunk = 2
+
+    yield upload.start()
+      .catch((err: HttpErrorMessage) => {
+        expect(err.error.status).to.equal(500)
+        return Observable.of(null)
+      })
+    expect(upload.progress$.getValue().uploadedChunks).to.equal(1)
+
+    requests = []
+    yield upload.start()
+      .do(file => expect(file._id).to.equal(fixture._id))
+
+    expect(requests.filter(r => /upload\/chunk$/.test(r.url)).length).to.equal(0)
+    expect(chunkRequests().map(r => r.url.split('=')[1])).to.deep.equal(['2', '3'])
+  })
+
+  it('should retry chunks but not the creation of the upload', function* () {
+    sdk.fetch.setRetry({ delay: 0 })
+    const upload = sdk.uploadFile({ _collectionId: fixture._parentId }, new Blob(['0123456789']), {
+      uploadAuth: 'striker',
+      concurrency: 1
+    })
+    failCreate = true
+
+    yield upload.start()
+      .catch((err: HttpErrorMessage) => {
+        expect(err.error.status).to.equal(502)
+        return Observable.of(null)
+      })
+    expect(requests.filter(r => /upload\/chunk$/.test(r.url)).length).to.equal(1)
+
+    failChunk = 2
+    failStatus = 503
+    requests = []
+    yield upload.start()
+      .do(file => expect(file._id).to.equal(fixture._id))
+    expect(chunkRequests().map(r => r.url.split('=')[1])).to.deep.equal(['1', '2', '2', '3'])
+  })
+
+  it('cancel should abort the in-flight chunk', function* () {
+    const upload = sdk.uploadFile({ _collectionId: fixture._parentId }, new Blob(['0123456789']), {
+      uploadAuth: 'striker',
+      concurrency: 1
+    })
+    pendingChunk = 2
+    let completed = false
+    let error: any = null
+    upload.start().subscribe(() => completed = true, (e: any) => error = e)
+
+    yield Observable.timer(20)
+    upload.cancel()
+    expect(aborted).to.be.true
+    expect(completed).to.be.false
+    expect(error).to.be.instanceof(TransferCancelledError)
+
+    pendingChunk = null
+    requests = []
+    yield upload.start()
+    expect(chunkRequests().map(r => r.url.split('=')[1])).to.deep.equal(['2', '3'])
+  })
+})
+
+describe('FileApi download spec', () => {
+  let sdk: SDK
+  let mockResponse: <T>(m: T, delay?: number | Promise<any>) => void
+  let server: nodeHttp.Server
+  let host: string
+  let ranges: string[]
+  let failRange: string | null
+
+  const content = '0123456789'
+  const [ fixture ] = Fixture.projectFiles
+  const toText = (data: any) => Buffer.isBuffer(data) ? data.toString() : ''
+
+  before(function* () {
+    server = nodeHttp.createServer((req, res) => {
+      const range = req.headers.range as string | undefined
+      if (req.url!.indexOf('/thumbnail/') === 0) {
+        res.writeHead(200, { 'Content-Type': 'image/png' })
+        res.end(req.url)
+        return
+      }
+      ranges.push(range || '')
+      if (req.url === '/download/slow' && range !== 'bytes=0-3') {
+        // 不响应，直到请求被中止
+        return
+      }
+      if (range && range === failRange) {
+        failRange = null
+        res.writeHead(503)
+        res.end()
+        return
+      }
+      const match = range && /^bytes=(\d+)-(\d+)$/.exec(range)
+      // 只有第一段响应 206，之后忽略 Range
+      const ignoreRange = req.url === '/download/no-resume' && range !== 'bytes=0-3'
+      if ((req.url === '/download/file' || req.url === '/download/slow' || req.url === '/download/no-resume') &&
+        match && !ignoreRange
+      ) {
+        const start = Number(match[1])
+        const end = Number(match[2])
+        res.writeHead(206, { 'Content-Range': `bytes ${start}-${end}/${content.length}` })
+        res.end(content.slice(start, end + 1))
+        return
+      }
+      res.writeHead(200)
+      res.end(content)
+    })
+    yield new Promise(resolve => server.listen(0, '127.0.0.1', resolve))
+    host = `http://127.0.0.1:${(server.address() as any).port}`
+  })
+
+  after(() => {
+    server.close()
+  })
+
+  beforeEach(() => {
+    sdk = createSdk()
+    mockResponse = mock(sdk)
+    sdk.fetch.setTransport(createNodeTransport({ keepAlive: false }))
+    ranges = []
+    failRange = null
+  })
+
+  afterEach(() => {
+    restore(sdk)
+  })
+
+  const mockFile = (path: string, fileSize = content.length) => mockResponse({
+    ...fixture,
+    fileSize,
+    downloadUrl: `${host}${path}`,
+    previewUrl: `${host}${path}`,
+    thumbnailUrl: `${host}/thumbnail/fileKey/w/200/h/200`
+  })
+
+  it('should download file by range requests', function* () {
+    mockFile('/download/file')
+    const download = sdk.downloadFile(fixture._id, { chunkSize: 4 })
+    const progress: number[] = []
+    download.progress$.subscribe(p => progress.push(p.loaded))
+
+    yield download.start()
+      .do(data => expect(toText(data)).to.equal(content))
+
+    expect(ranges).to.deep.equal(['bytes=0-3', 'bytes=4-7', 'bytes=8-9'])
+    expect(progress.slice(-3)).to.deep.equal([4, 8, 10])
+  })
+
+  it('should resume from the downloaded bytes after failure', function* () {
+    mockFile('/download/file')
+    sdk.fetch.setRetry(false)
+    const download = sdk.downloadFile(fixture._id, { chunkSize: 4 })
+    failRange = 'bytes=4-7'
+
+    yield download.start()
+      .catch((err: HttpErrorMessage) => {
+        expect(err.error.status).to.equal(503)
+        return Observable.of(null)
+      })
+    expect(download.progress$.getValue()).to.deep.equal({ loaded: 4, total: 10 })
+
+    ranges = []
+    yield download.start()
+      .do(data => expect(toText(data)).to.equal(content))
+    expect(ranges).to.deep.equal(['bytes=4-7', 'bytes=8-9'])
+  })
+
+  it('should send range requests through the SDKFetch pipeline', function* () {
+    mockFile('/download/file')
+    sdk.fetch.setRetry({ delay: 0 })
+    const intercepted: string[] = []
+    sdk.fetch.interceptors.append({
+      onRequest: request => {
+        intercepted.push(request.headers.Range)
+      }
+    })
+    const metrics: RequestMetric[] = []
+    const subscription = sdk.fetch.metrics$.filter(m => m.path === 'download/file').subscribe(m => metrics.push(m))
+    failRange = 'bytes=4-7'
+
+    yield sdk.downloadFile(fixture._id, { chunkSize: 4 }).start()
+      .do(data => expect(toText(data)).to.equal(content))
+    subscription.unsubscribe()
+
+    expect(intercepted).to.deep.equal(['bytes=0-3', 'bytes=4-7', 'bytes=8-9'])
+    expect(ranges).to.deep.equal(['bytes=0-3', 'bytes=4-7', 'bytes=4-7', 'bytes=8-9'])
+    expect(metrics.map(m => m.retries)).to.deep.equal([0, 1, 0])
+    expect(metrics[0].bytes).to.equal(4)
+  })
+
+  it('cancel should end start() with TransferCancelledError and keep the downloaded bytes', function* () {
+    mockFile('/download/slow')
+    const download = sdk.downloadFile(fixture._id, { chunkSize: 4 })
+    let error: any = null
+    download.start().subscribe(() => void 0, (e: any) => error = e)
+
+    yield Observable.timer(50)
+    download.cancel()
+    expect(error).to.be.instanceof(TransferCancelledError)
+    expect(download.progress$.getValue().loaded).to.equal(4)
+  })
+
+  it('stream should emit each downloaded chunk without keeping them', function* () {
+    mockFile('/download/file')
+    const download = sdk.downloadFile(fixture._id, { chunkSize: 6, source: 'preview' })
+
+    yield download.stream()
+      .toArray()
+      .do(chunks => expect(chunks.map(toText)).to.deep.equal(['012345', '6789']))
+    expect(download['chunks'].length).to.equal(0)
+
+    // 已经通过 stream 推送的数据需要重新下载
+    ranges = []
+    yield download.start()
+      .do(data => expect(toText(data)).to.equal(content))
+    expect(ranges).to.deep.equal(['bytes=0-5', 'bytes=6-9'])
+  })
+
+  it('stream should fail instead of emitting duplicated data when Range is ignored on resume', function* () {
+    mockFile('/download/no-resume')
+    const download = sdk.downloadFile(fixture._id, { chunkSize: 4 })
+    const chunks: string[] = []
+
+    yield download.stream()
+      .do(chunk => chunks.push(toText(chunk)))
+      .catch((err: Error) => {
+        expect(err.message).to.match(/Range request .* is ignored/)
+        return Observable.of(null)
+      })
+    expect(chunks).to.deep.equal(['0123'])
+    expect(download.progress$.getValue().loaded).to.equal(0)
+
+    // start 丢弃之前的数据，使用完整的响应
+    yield download.start()
+      .do(data => expect(toText(data)).to.equal(content))
+  })
+
+  it('should download empty files as empty Buffer in Node.js', function* () {
+    mockFile('/download/file', 0)
+
+    yield sdk.downloadFile(fixture._id).start()
+      .do(data => {
+        expect(Buffer.isBuffer(data)).to.be.true
+        expect((data as Buffer).length).to.equal(0)
+      })
+    expect(ranges).to.deep.equal([])
+  })
+
+  it('should accept a full response when range is ignored', function* () {
+    mockFile('/download/norange')
+
+    yield sdk.downloadFile(fixture._id, { chunkSize: 4 }).start()
+      .do(data => expect(toText(data)).to.equal(content))
+    expect(ranges).to.deep.equal(['bytes=0-3'])
+  })
+
+  it('should fail when the downloaded size does not match fileSize', function* () {
+    mockFile('/download/norange', 12)
+    const download = sdk.downloadFile(fixture._id, { chunkSize: 0 })
+
+    yield download.start()
+      .catch((err: Error) => {
+        expect(err.message).to.match(/Downloaded 10 bytes/)
+        return Observable.of(null)
+      })
+    expect(ranges).to.deep.equal([''])
+    expect(download.progress$.getValue().loaded).to.equal(0)
+  })
+
+  it('should get thumbnail with the given size', function* () {
+    mockFile('/download/file')
+
+    yield sdk.getFileThumbnail(fixture._id, { width: 100 })
+      .do(data => expect(toText(data)).to.equal('/thumbnail/fileKey/w/100/h/200'))
+  })
+
+  it('getThumbnailUrl should replace the size of thumbnail url', () => {
+    expect(getThumbnailUrl(fixture.thumbnailUrl, { width: 50, height: 60 }))
+      .to.equal('http://tcs.project.ci/thumbnail/0113320fab4c6394eaf7c0ec0358df423b8a/w/50/h/60')
+  })
+})
@@ -1,4 +1,4 @@
-import { describe, before, beforeEach, it, afterEach, after } from 'tman'
+import { describe, beforeEach, it, afterEach } from 'tman'
 import { expect } from 'chai'
 import { Scheduler } from 'rxjs'
 import { SDKFetch } from '../'
@@ -26,16 +26,9 @@ describe('get organization projects', () => {
       { fn: getUngroupedOrganizationProjects, namespace: 'ungrouped' }
     ]
 
-    before(() => {
-      SDKFetch.fetchTail = '666'
-    })
-
-    after(() => {
-      SDKFetch.fetchTail = undefined
-    })
-
     beforeEach(() => {
       sdkFetch = new SDKFetch()
+      sdkFetch.setFetchTail('666')
       sdkFetch.setAPIHost('')
       projects = [
         { _id: 'A', tagId: '1', namespaces: ['all'] },
@@ -1,4 +1,4 @@
-import { describe, before, beforeEach, it, afterEach, after } from 'tman'
+import { describe, beforeEach, it, afterEach } from 'tman'
 import { expect } from 'chai'
 import { Scheduler } from 'rxjs'
 import {
@@ -12,20 +12,12 @@ const fetchMock = require('fetch-mock')
 
 describe('get personal projects', () => {
   describe('fetch api', () => {
-
     let sdkFetch: SDKFetch
     let projects: any[]
 
-    before(() => {
-      SDKFetch.fetchTail = '666'
-    })
-
-    after(() => {
-      SDKFetch.fetchTail = undefined
-    })
-
     beforeEach(() => {
       sdkFetch = new SDKFetch()
+      sdkFetch.setFetchTail('666')
       sdkFetch.setAPIHost('')
       projects = [
         { _id: 'A' },
@@ -87,18 +79,11 @@ describe('get personal projects', () => {
 })
 
 describe('ProjectApi request spec: ', () => {
-  before(() => {
-    SDKFetch.fetchTail = '666'
-  })
-
-  after(() => {
-    SDKFetch.fetchTail = undefined
-  })
-
   let sdkFetch: SDKFetch
 
   beforeEach(() => {
     sdkFetch = new SDKFetch()
+    sdkFetch.setFetchTail('666')
     sdkFetch.setAPIHost('')
   })
 
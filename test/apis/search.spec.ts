@@ -1,4 +1,4 @@
-import { describe, before, beforeEach, it, afterEach, after } from 'tman'
+import { describe, beforeEach, it, afterEach } from 'tman'
 import { expect } from 'chai'
 import { Scheduler } from 'rxjs'
 import {
@@ -65,16 +65,9 @@ describe('search for members', () => {
       { fn: searchMembersInGroup, namespace: 'groups' },
     ]
 
-    before(() => {
-      SDKFetch.fetchTail = '666'
-    })
-
-    after(() => {
-      SDKFetch.fetchTail = undefined
-    })
-
     beforeEach(() => {
       sdkFetch = new SDKFetch()
+      sdkFetch.setFetchTail('666')
       sdkFetch.setAPIHost('') // 下面的测试不关心 API host 设置
       allMembers = [
         {
@@ -1,4 +1,4 @@
-import { describe, before, beforeEach, afterEach, it, after } from 'tman'
+import { describe, beforeEach, afterEach, it } from 'tman'
 import { Scheduler } from 'rxjs'
 import { expect } from 'chai'
 
@@ -10,18 +10,11 @@ import { OrganizationId, ProjectId } from 'teambition-types'
 const fetchMock = require('fetch-mock')
 
 describe('TagApi request spec: ', () => {
-  before(() => {
-    SDKFetch.fetchTail = '666'
-  })
-
-  after(() => {
-    SDKFetch.fetchTail = undefined
-  })
-
   let sdkFetch: SDKFetch
 
   beforeEach(() => {
     sdkFetch = new SDKFetch()
+    sdkFetch.setFetchTail('666')
     sdkFetch.setAPIHost('')
   })
 
@@ -0,0 +1,109 @@
+import { expect } from 'chai'
+import { Observable, Scheduler } from 'rxjs'
+import { describe, it, before, after, beforeEach, afterEach } from 'tman'
+import * as nodeHttp from 'http'
+import * as os from 'os'
+import * as path from 'path'
+import { Backend, HttpErrorMessage, MockRecorder, Recording, SDKFetch, loadRecording, restore } from '../index'
+
+describe('mock recorder: ', () => {
+  let server: nodeHttp.Server
+  let apiHost: string
+  let recorder: MockRecorder
+  let recording: Recording
+
+  const userMe = { _id: 'me', name: 'Teambition', strikerAuth: 'Bearer secret', profile: { snapperToken: 'secret' } }
+
+  before(function* () {
+    server = nodeHttp.createServer((req, res) => {
+      let body = ''
+      req.on('data', chunk => body += chunk)
+      req.on('end', () => {
+        if (req.method === 'POST') {
+          res.writeHead(200, { 'Content-Type': 'application/json' })
+          res.end(JSON.stringify({ _id: 'task', ...JSON.parse(body) }))
+          return
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json', 'Set-Cookie': 'session=secret' })
+        res.end(JSON.stringify(userMe))
+      })
+    })
+    yield new Promise(resolve => server.listen(0, '127.0.0.1', resolve))
+    apiHost = `http://127.0.0.1:${(server.address() as any).port}/api`
+  })
+
+  after(() => {
+    server.close()
+  })
+
+  beforeEach(function* () {
+    // 使用真实的 fetch 录制
+    restore()
+    recorder = new MockRecorder().start()
+    const sdkFetch = new SDKFetch(apiHost, 'token').setRetry(false)
+
+    yield sdkFetch.get('users/me', { fields: 'name', access_token: 'token' })
+      .subscribeOn(Scheduler.asap)
+    yield sdkFetch.post('tasks', { content: 'a' })
+      .subscribeOn(Scheduler.asap)
+
+    recording = recorder.stop()
+  })
+
+  afterEach(() => {
+    restore()
+  })
+
+  it('should record requests with redacted tokens', () => {
+    expect(recording.entries.length).to.equal(2)
+    const [ get, post ] = recording.entries
+
+    expect(get.request).to.deep.equal({ method: 'get', url: `${apiHost}/users/me?fields=name` })
+    expect(get.response.status).to.equal(200)
+    expect(get.response.headers['set-cookie']).to.equal('<redacted>')
+    expect(JSON.parse(get.response.body)).to.deep.equal({
+      ...userMe, strikerAuth: '<redacted>', profile: { snapperToken: '<redacted>' }
+    })
+
+    expect(post.request).to.deep.equal({ method: 'post', url: `${apiHost}/tasks`, body: { content: 'a' } })
+    expect(JSON.parse(post.response.body)).to.deep.equal({ _id: 'task', content: 'a' })
+    expect(JSON.stringify(recording)).to.not.contain('secret')
+  })
+
+  it('should replay the recording through Backend', function* () {
+    new Backend().replay(recording)
+    const sdkFetch = new SDKFetch(apiHost, 'another token').setRetry(false)
+
+    yield sdkFetch.get('users/me', { access_token: 'another', fields: 'name' })
+      .subscribeOn(Scheduler.asap)
+      .do((resp: any) => expect(resp.strikerAuth).to.equal('<redacted>'))
+
+    yield sdkFetch.post('tasks', { content: 'a' })
+      .subscribeOn(Scheduler.asap)
+      .do((resp: any) => expect(resp).to.deep.equal({ _id: 'task', content: 'a' }))
+  })
+
+  it('should fail unmatched request with diff against the nearest recorded request', function* () {
+    new Backend().replay(recording)
+    const sdkFetch = new SDKFetch(apiHost).setRetry(false)
+    const consoleError = console.error
+    console.error = () => void 0
+
+    yield sdkFetch.get('users/me', { fields: 'email' })
+      .catch((err: HttpErrorMessage) => {
+        const message = err.error.cause.message
+        expect(message).to.contain(`  path: ${apiHost}/users/me`)
+        expect(message).to.contain('- query.fields: name')
+        expect(message).to.contain('+ query.fields: email')
+        return Observable.of(null)
+      })
+      .subscribeOn(Scheduler.asap)
+      .finally(() => console.error = consoleError)
+  })
+
+  it('save and loadRecording should round trip', () => {
+    const file = path.join(os.tmpdir(), `tbsdk-recording-${Date.now()}.json`)
+    recorder.save(file)
+    expect(loadRecording(file)).to.deep.equal(recording)
+  })
+})
@@ -1 +1,2 @@
 import './MockSpec'
+import './RecorderSpec'
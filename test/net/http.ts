@@ -2,7 +2,10 @@ import { Observable, Scheduler } from 'rxjs'
 import { expect } from 'chai'
 import { describe, it, beforeEach, afterEach } from 'tman'
 
-import { HttpErrorMessage, Http } from '../index'
+import {
+  HttpErrorMessage, Http, SDKError, NetworkError, TimeoutError, AuthError,
+  ValidationError, NotFoundError, RateLimitError, ServerError
+} from '../index'
 import * as http from '../../src/Net/Http'
 
 const fetchMock = require('fetch-mock')
@@ -170,6 +173,7 @@ export default describe('net/http', () => {
               expect(fetchMock.lastOptions().method).to.equal(httpMethod)
             }
             expect(res.error.status).to.equal(status)
+            expect(res.kind).to.equal('response')
             expect(res.method).to.equal(httpMethod)
             expect(res.url).to.equal(url)
             return Observable.empty()
@@ -218,4 +222,126 @@ export default describe('net/http', () => {
       expect(fetchMock.calls(url)).lengthOf(1)
     })
   })
+
+  it('should error with a timeout kind when request times out', function* () {
+    fetchMock.mock(url, () => new Promise(resolve => setTimeout(() => resolve({}), 100)))
+
+    yield fetchInstance.setTimeout(10).setRetry(false).get()
+      .send()
+      .catch((res: HttpErrorMessage) => {
+        expect(res.kind).to.equal('timeout')
+        expect(res.error).to.be.instanceof(TimeoutError)
+        expect(res.error.code).to.equal('TIMEOUT')
+        expect(res.url).to.equal(url)
+        return Observable.empty()
+      })
+      .subscribeOn(Scheduler.asap)
+  })
+
+  it('should abort the request when timed out or unsubscribed', function* () {
+    const signals: AbortSignal[] = []
+    fetchMock.mock(url, (_: string, opts: RequestInit) => {
+      signals.push(opts.signal!)
+      return new Promise(resolve => setTimeout(() => resolve({}), 50))
+    })
+
+    yield fetchInstance.setTimeout(10).setRetry(false).get()
+      .send()
+      .catch(() => Observable.empty())
+
+    const subscription = new Http(url).get().send().subscribe()
+    subscription.unsubscribe()
+
+    expect(signals.length).to.equal(2)
+    expect(signals.every(signal => signal.aborted)).to.be.true
+  })
+
+  it('should not abort the request when it has completed', function* () {
+    let signal: AbortSignal | undefined
+    fetchMock.mock(url, (_: string, opts: RequestInit) => {
+      signal = opts.signal
+      return {}
+    })
+
+    yield fetchInstance.get()
+      .send()
+      .subscribeOn(Scheduler.asap)
+
+    expect(signal!.aborted).to.be.false
+  })
+
+  it('should error with a network kind when no response is received', function* () {
+    fetchMock.mock(url, { throws: new TypeError('Failed to fetch') })
+
+    yield fetchInstance.setRetry(false).get()
+      .send()
+      .catch((res: HttpErrorMessage) => {
+        expect(res.kind).to.equal('network')
+        expect(res.error).to.be.instanceof(NetworkError)
+        expect(res.error.cause).to.be.instanceof(TypeError)
+        return Observable.empty()
+      })
+      .subscribeOn(Scheduler.asap)
+  })
+
+  const errorTypes: [number, Function, string][] = [
+    [400, ValidationError, 'VALIDATION_ERROR'],
+    [401, AuthError, 'AUTH_ERROR'],
+    [403, AuthError, 'AUTH_ERROR'],
+    [404, NotFoundError, 'NOT_FOUND'],
+    [409, SDKError, 'HTTP_ERROR'],
+    [422, ValidationError, 'VALIDATION_ERROR'],
+    [429, RateLimitError, 'RATE_LIMITED'],
+    [500, ServerError, 'SERVER_ERROR']
+  ]
+
+  errorTypes.forEach(([status, errorType, code]) => {
+    it(`should error with ${code} for ${status} status`, function* () {
+      const errorBody = { name: 'InvalidParams', message: 'invalid params', data: { field: 'title' } }
+      fetchMock.mock(url, { status, body: errorBody })
+
+      yield fetchInstance.setRetry(false).post({ title: '' })
+        .send()
+        .catch((res: HttpErrorMessage) => {
+          const error = res.error
+          expect(error).to.be.instanceof(errorType)
+          expect(error).to.be.instanceof(SDKError)
+          expect(error.code).to.equal(code)
+          expect(error.status).to.equal(status)
+          expect(error.body).to.deep.equal(errorBody)
+          expect(error.errorName).to.equal('InvalidParams')
+          expect(error.data).to.deep.equal({ field: 'title' })
+          expect(error.request).to.deep.equal({ method: 'post', url, body: { title: '' } })
+          expect(error.message).to.equal(`invalid params (POST ${url})`)
+          return Observable.empty()
+        })
+        .subscribeOn(Scheduler.asap)
+    })
+  })
+
+  it('should keep the error body as text when it is not JSON', function* () {
+    fetchMock.mock(url, { status: 502, body: '<html>bad gateway</html>' })
+
+    yield fetchInstance.setRetry(false).get()
+      .send()
+      .catch((res: HttpErrorMessage) => {
+        expect(res.error.body).to.equal('<html>bad gateway</html>')
+        expect(res.error.statusText).to.equal('Bad Gateway')
+        expect(res.error.message).to.equal(`502 Bad Gateway (GET ${url})`)
+        return Observable.empty()
+      })
+      .subscribeOn(Scheduler.asap)
+  })
+
+  it('RateLimitError should expose Retry-After', function* () {
+    fetchMock.mock(url, { status: 429, body: {}, headers: { 'Retry-After': '3' } })
+
+    yield fetchInstance.setRetry(false).get()
+      .send()
+      .catch((res: HttpErrorMessage) => {
+        expect((res.error as RateLimitError).retryAfter).to.equal(3000)
+        return Observable.empty()
+      })
+      .subscribeOn(Scheduler.asap)
+  })
 })
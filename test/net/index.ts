@@ -1,3 +1,9 @@
 import './asyncLoadRDB'
 import './net'
 import './http'
+import './retry'
+import './scheduler'
+import './offline'
+import './paginator'
+import './transport'
+import './metrics'
@@ -0,0 +1,97 @@
+import { Observable, Scheduler } from 'rxjs'
+import { expect } from 'chai'
+import { describe, it, beforeEach, afterEach } from 'tman'
+
+import { HttpErrorMessage, RequestMetric, SDKFetch, createSdkWithoutRDB, toPathTemplate } from '../index'
+import { byteLength } from '../../src/Net/Metrics'
+
+const fetchMock = require('fetch-mock')
+
+export default describe('net/metrics', () => {
+
+  const apiHost = 'https://www.teambition.com/api'
+  const taskId = '5ab886a90773ac00123b7add'
+  let sdkFetch: SDKFetch
+  let metrics: RequestMetric[]
+
+  beforeEach(() => {
+    sdkFetch = new SDKFetch(apiHost)
+    metrics = []
+    sdkFetch.metrics$.subscribe(metric => metrics.push(metric))
+  })
+
+  afterEach(() => {
+    fetchMock.restore()
+  })
+
+  it('should report metric with path template, status, bytes and retries', function* () {
+    let calls = 0
+    fetchMock.mock(new RegExp(`tasks/${taskId}`), () => {
+      calls++
+      return calls === 1 ? { status: 503, body: {} } : { body: { content: '中文' } }
+    })
+
+    yield sdkFetch.get(`tasks/${taskId}`, { fields: 'content' }, { retry: { delay: 1, jitter: false } })
+      .subscribeOn(Scheduler.asap)
+
+    expect(metrics.length).to.equal(1)
+    const [ metric ] = metrics
+    expect(metric.method).to.equal('get')
+    expect(metric.url.indexOf(`${apiHost}/tasks/${taskId}?fields=content`)).to.equal(0)
+    expect(metric.path).to.equal('tasks/:id')
+    expect(metric.status).to.equal(200)
+    expect(metric.retries).to.equal(1)
+    expect(metric.bytes).to.equal(byteLength(JSON.stringify({ content: '中文' })))
+    expect(metric.duration).to.be.at.least(0)
+    expect(metric.error).to.be.undefined
+    expect(metric.traceparent).to.be.undefined
+  })
+
+  it('should report metric of failed request', function* () {
+    fetchMock.mock(new RegExp(`tasks/${taskId}`), { status: 404, body: {} })
+
+    yield sdkFetch.delete(`tasks/${taskId}`)
+      .catch((err: HttpErrorMessage) => Observable.of(err))
+      .subscribeOn(Scheduler.asap)
+
+    expect(metrics.length).to.equal(1)
+    expect(metrics[0]).to.include({ method: 'delete', path: 'tasks/:id', status: 404, retries: 0, error: 'response' })
+  })
+
+  it('should send traceparent when tracing is enabled', function* () {
+    fetchMock.mock(new RegExp('tasks'), { body: [] })
+    sdkFetch.setTracing(true)
+
+    yield sdkFetch.post('tasks', { content: 'a' })
+      .subscribeOn(Scheduler.asap)
+
+    const traceparent = fetchMock.lastOptions().headers.traceparent
+    expect(traceparent).to.match(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/)
+    expect(metrics[0].traceparent).to.equal(traceparent)
+  })
+
+  it('sdk.metrics$ should include the metrics of sdk.fetch', function* () {
+    const sdk = createSdkWithoutRDB()
+    const received: RequestMetric[] = []
+    const subscription = sdk.metrics$.subscribe(metric => received.push(metric))
+    fetchMock.mock(new RegExp('projects'), { body: [] })
+
+    yield sdk.fetch.get('projects')
+      .subscribeOn(Scheduler.asap)
+
+    subscription.unsubscribe()
+    expect(received.map(m => m.path)).to.deep.equal(['projects'])
+  })
+
+  it('toPathTemplate should replace ids in path', () => {
+    expect(toPathTemplate(`tasks/${taskId}/subtasks?a=1`)).to.equal('tasks/:id/subtasks')
+    expect(toPathTemplate('organizations/123/members')).to.equal('organizations/:id/members')
+    expect(toPathTemplate('users/me')).to.equal('users/me')
+  })
+
+  it('byteLength should count utf-8 bytes', () => {
+    expect(byteLength('abc')).to.equal(3)
+    expect(byteLength('é中')).to.equal(5)
+    expect(byteLength('😀')).to.equal(4)
+  })
+})
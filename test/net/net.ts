@@ -1,4 +1,4 @@
-import { Observable, Subscription, Scheduler } from 'rxjs'
+import { Observable, Subject, Subscription, Scheduler } from 'rxjs'
 import { describe, beforeEach, afterEach, it } from 'tman'
 import { Database, DataStoreType } from 'reactivedb'
 import { expect, use } from 'chai'
@@ -6,10 +6,11 @@ import { spy } from 'sinon'
 import * as SinonChai from 'sinon-chai'
 import '../../src/schemas'
 import { schemaColl, CacheStrategy } from '../../src/SDK'
-import { Net, Backend, SDKFetch, forEach, uuid, Http, EventSchema } from '..'
+import { Net, Backend, SDKFetch, forEach, uuid, Http, EventSchema, PostSchema, MemoryRequestCacheStore, ConditionalCache } from '..'
 import { ApiResult } from '../../src/Net/Net'
 import { createMsgToDBHandler } from '../../src/sockets/EventMaps'
 import { normalEvent, projectEvents } from '../fixtures/events.fixture'
+import { projectPosts } from '../fixtures/posts.fixture'
 
 import { expectToDeepEqualForFieldsOfTheExpected } from '../utils'
 import { mapMsgTypeToTable } from '../../src/sockets/MapToTable'
@@ -594,6 +595,104 @@ describe('Net test', () => {
 
   })
 
+  describe('Net#handleCUDAResult optimistic', () => {
+    const [ post ] = projectPosts
+    const getPost = (_id: string) => database.get<PostSchema>('Post', { where: { _id } }).values()
+    const failure = () => Observable.throw(new Error('request failed'))
+
+    let response$: Subject<any>
+
+    beforeEach(function* () {
+      response$ = new Subject<any>()
+      yield database.insert('Post', post)
+    })
+
+    it('should write optimistic update before the response and reconcile with it', function* () {
+      const result$ = net.lift({
+        request: response$.take(1),
+        tableName: 'Post',
+        method: 'update',
+        clause: { _id: post._id },
+        optimistic: { title: 'optimistic' }
+      }).publishReplay(1)
+      subscription = result$.connect()
+
+      yield Observable.timer(10)
+      yield getPost(post._id).do(([r]) => expect(r.title).to.equal('optimistic'))
+
+      response$.next({ _id: post._id, title: 'from server' })
+      yield result$
+      yield getPost(post._id).do(([r]) => expect(r.title).to.equal('from server'))
+    })
+
+    it('should rollback update on error', function* () {
+      yield net.lift({
+        request: Observable.timer(10).concatMap(failure),
+        tableName: 'Post',
+        method: 'update',
+        clause: { _id: post._id },
+        optimistic: { title: 'optimistic', content: 'optimistic' }
+      })
+        .catch(() => Observable.of(null))
+
+      yield getPost(post._id).do(([r]) => {
+        expect(r.title).to.equal(post.title)
+        expect(r.content).to.equal(post.content)
+      })
+    })
+
+    it('should rollback delete on error', function* () {
+      const result$ = net.lift({
+        request: response$.take(1),
+        tableName: 'Post',
+        method: 'delete',
+        clause: { _id: post._id },
+        optimistic: {}
+      }).publishReplay(1)
+      subscription = result$.connect()
+
+      yield Observable.timer(10)
+      yield getPost(post._id).do(r => expect(r.length).to.equal(0))
+
+      response$.error(new Error('request failed'))
+      yield result$.catch(() => Observable.of(null))
+      yield getPost(post._id).do(([r]) => expect(r._id).to.equal(post._id))
+    })
+
+    it('should write optimistic creation with a temporary primary key', function* () {
+      const created = { ...post, _id: 'newpostid', title: 'created' }
+      const result$ = net.lift({
+        request: response$.take(1),
+        tableName: 'Post',
+        method: 'create',
+        optimistic: { title: 'created' }
+      }).publishReplay(1)
+      subscription = result$.connect()
+
+      yield Observable.timer(10)
+      yield database.get<PostSchema>('Post', { where: { title: 'created' } }).values()
+        .do(([r]) => expect(r._id).to.match(/^optimistic-/))
+
+      response$.next(created)
+      yield result$
+      yield database.get<PostSchema>('Post', { where: { title: 'created' } }).values()
+        .do(rs => expect(rs.map(r => r._id)).to.deep.equal(['newpostid']))
+    })
+
+    it('should remove optimistic creation on error', function* () {
+      yield net.lift({
+        request: Observable.timer(10).concatMap(failure),
+        tableName: 'Post',
+        method: 'create',
+        optimistic: { title: 'never created' }
+      })
+        .catch(() => Observable.of(null))
+
+      yield database.get<PostSchema>('Post', { where: { title: 'never created' } }).values()
+        .do(rs => expect(rs.length).to.equal(0))
+    })
+  })
+
 })
 
 describe('Net CacheStrategy Spec', () => {
@@ -662,6 +761,22 @@ describe('Net CacheStrategy Spec', () => {
     expect(server.calledTwice).to.be.true
   })
 
+  it('metrics$ / report cache miss, hit and stale', function* () {
+    const results: any[] = []
+    net.metrics$.subscribe(metric => results.push(metric))
+
+    yield net.lift(getEventOptions(CacheStrategy.Request)).values()
+    yield net.lift(getEventOptions(CacheStrategy.Request)).values()
+    yield net.lift(getEventOptions(CacheStrategy.StaleWhileRevalidate, { ttl: 0 })).values()
+    yield net.lift(getEventOptions(CacheStrategy.Cache)).values()
+
+    expect(results.map(m => m.cache)).to.deep.equal(['miss', 'hit', 'stale'])
+    results.forEach(m => {
+      expect(m.path).to.equal('Event')
+      expect(m.status).to.be.null
+    })
+  })
+
   it('CacheStrategy.Cache / do `request` for the 1st call', function* () {
     yield net.lift(getEventOptions(CacheStrategy.Cache)).values()
 
@@ -676,6 +791,291 @@ describe('Net CacheStrategy Spec', () => {
     expect(server.calledThrice).to.be.true
   })
 
+  it('CacheStrategy.Request / `ttl` expired / do `request` again', function* () {
+    yield net.lift(getEventOptions(CacheStrategy.Request, { ttl: 10 })).values()
+    yield net.lift(getEventOptions(CacheStrategy.Request, { ttl: 10 })).values()
+    expect(server.calledOnce).to.be.true
+
+    yield Observable.timer(20)
+    yield net.lift(getEventOptions(CacheStrategy.Request, { ttl: 10 })).values()
+    expect(server.calledTwice).to.be.true
+  })
+
+  it('CacheStrategy.Request / invalidated by tableName / do `request` again', function* () {
+    yield net.lift(getEventOptions(CacheStrategy.Request)).values()
+    yield net.lift(getEventOptions(CacheStrategy.Request, { tableName: 'Task' })).values()
+
+    net.invalidate({ tableName: 'Event' })
+
+    yield net.lift(getEventOptions(CacheStrategy.Request)).values()
+    yield net.lift(getEventOptions(CacheStrategy.Request, { tableName: 'Task' })).values()
+    expect(server.calledThrice).to.be.true
+  })
+
+  it('CacheStrategy.Request / invalidated by cacheKey / do `request` again only for the key', function* () {
+    const otherQuery = { query: {} }
+    yield net.lift(getEventOptions(CacheStrategy.Request)).values()
+    yield net.lift(getEventOptions(CacheStrategy.Request, otherQuery)).values()
+
+    net.invalidate({ cacheKey: net.getCacheKey(getEventOptions(CacheStrategy.Request)) })
+
+    yield net.lift(getEventOptions(CacheStrategy.Request)).values()
+    yield net.lift(getEventOptions(CacheStrategy.Request, otherQuery)).values()
+    expect(server.calledThrice).to.be.true
+  })
+
+  it('CacheStrategy.StaleWhileRevalidate / emit cached rows then refresh in background', function* () {
+    const [ event ] = projectEvents
+    let title = 'first'
+    server = spy(() => Observable.of({ ...event, title }))
+
+    yield net.lift(getEventOptions(CacheStrategy.StaleWhileRevalidate)).values()
+      .do(([r]: any[]) => expect(r.title).to.equal('first'))
+
+    title = 'second'
+    const titles: string[] = []
+    const subscription = net.lift(getEventOptions(CacheStrategy.StaleWhileRevalidate)).changes()
+      .subscribe(([r]: any[]) => titles.push(r.title))
+
+    yield Observable.timer(20)
+    subscription.unsubscribe()
+
+    expect(titles).to.deep.equal(['first', 'second'])
+    expect(server.calledTwice).to.be.true
+  })
+
+  it('CacheStrategy.StaleWhileRevalidate / cache within `ttl` / no `request`', function* () {
+    yield net.lift(getEventOptions(CacheStrategy.StaleWhileRevalidate, { ttl: 1000 })).values()
+    yield net.lift(getEventOptions(CacheStrategy.StaleWhileRevalidate, { ttl: 1000 })).values()
+
+    expect(server.calledOnce).to.be.true
+  })
+
+  it('CacheStrategy.StaleWhileRevalidate / failed revalidation / keep cached rows', function* () {
+    yield net.lift(getEventOptions(CacheStrategy.StaleWhileRevalidate)).values()
+
+    server = spy(() => Observable.throw(new Error('revalidate failed')))
+    yield net.lift(getEventOptions(CacheStrategy.StaleWhileRevalidate)).values()
+      .do(([r]: any[]) => expect(r._id).to.equal(projectEvents[0]._id))
+  })
+
+  it('CacheStrategy.StaleWhileRevalidate / 304 response / keep rows and refresh the request cache', function* () {
+    const [ event ] = projectEvents
+    const conditionalCache = new ConditionalCache()
+    let notModified = false
+    server = spy(() => {
+      if (notModified) {
+        return Observable.of(conditionalCache.getNotModified('events')!.body)
+      }
+      const body = { ...event }
+      conditionalCache.update('events', { etag: '"v1"' }, body)
+      return Observable.of(body)
+    })
+    const store = new MemoryRequestCacheStore()
+    yield net.persistRequestCache(store)
+
+    yield net.lift(getEventOptions(CacheStrategy.StaleWhileRevalidate)).values()
+    notModified = true
+    const upsert = spy(database, 'upsert')
+    yield net.lift(getEventOptions(CacheStrategy.StaleWhileRevalidate)).values()
+      .do(([r]: any[]) => expect(r._id).to.equal(event._id))
+    yield Observable.timer(20)
+    upsert.restore()
+
+    expect(server.calledTwice).to.be.true
+    expect(upsert.called).to.be.false
+    const { entries } = yield store.load()
+    expect(Object.keys(entries).map(key => entries[key])).to.deep.equal([{
+      tableName: 'Event', cachedAt: entries[Object.keys(entries)[0]].cachedAt, url: 'events', etag: '"v1"'
+    }])
+  })
+
+  it('CacheStrategy.Cache / 304 response / keep rows', function* () {
+    const [ event ] = projectEvents
+    const conditionalCache = new ConditionalCache()
+    let notModified = false
+    server = spy(() => {
+      if (notModified) {
+        return Observable.of(conditionalCache.getNotModified('events')!.body)
+      }
+      const body = { ...event }
+      conditionalCache.update('events', { etag: '"v1"' }, body)
+      return Observable.of(body)
+    })
+
+    yield net.lift(getEventOptions(CacheStrategy.Cache)).values()
+    notModified = true
+    const upsert = spy(database, 'upsert')
+    yield net.lift(getEventOptions(CacheStrategy.Cache)).values()
+      .do(([r]: any[]) => expect(r._id).to.equal(event._id))
+    upsert.restore()
+
+    expect(server.calledTwice).to.be.true
+    expect(upsert.called).to.be.false
+  })
+
+  it('invalidate / cacheKeyPrefix / drop only matching request cache', function* () {
+    yield net.lift(getEventOptions(CacheStrategy.Request)).values()
+    yield net.lift(getEventOptions(CacheStrategy.Request, { tableName: 'Task' })).values()
+
+    yield net.invalidate({ cacheKeyPrefix: 'Task:' })
+
+    yield net.lift(getEventOptions(CacheStrategy.Request)).values()
+    yield net.lift(getEventOptions(CacheStrategy.Request, { tableName: 'Task' })).values()
+    expect(server.calledThrice).to.be.true
+  })
+
+  it('invalidate / whereValue / drop only request cache with the value in the where clause', function* () {
+    const inWhere = { query: { where: { $and: [{ _projectId: { $in: ['project1'] } }] } } }
+    const prefixed = { query: { where: { _projectId: 'project10' } } }
+    const notInWhere = { query: { where: { _projectId: 'project2' } } }
+    yield net.lift(getEventOptions(CacheStrategy.Request, inWhere)).values()
+    yield net.lift(getEventOptions(CacheStrategy.Request, prefixed)).values()
+    yield net.lift(getEventOptions(CacheStrategy.Request, notInWhere)).values()
+
+    yield net.invalidate({ whereValue: 'project1' })
+
+    yield net.lift(getEventOptions(CacheStrategy.Request, inWhere)).values()
+    yield net.lift(getEventOptions(CacheStrategy.Request, prefixed)).values()
+    yield net.lift(getEventOptions(CacheStrategy.Request, notInWhere)).values()
+    expect(server.callCount).to.equal(4)
+  })
+
+  it('invalidate / live QueryToken / do `request` again and emit the refreshed rows', function* () {
+    const [ event ] = projectEvents
+    let title = 'before'
+    server = spy(() => Observable.of({ ...event, title }))
+
+    const titles: string[] = []
+    const subscription = net.lift(getEventOptions(CacheStrategy.Request)).changes()
+      .subscribe(([r]: any[]) => titles.push(r.title))
+    yield Observable.timer(10)
+
+    title = 'after'
+    yield net.invalidate({ tableName: 'Event' })
+    yield Observable.timer(10)
+    subscription.unsubscribe()
+
+    expect(server.calledTwice).to.be.true
+    expect(titles).to.deep.equal(['before', 'after'])
+  })
+
+  it('invalidate / where / purge matching rows from ReactiveDB', function* () {
+    // 删除时会遍历关联表，需要定义全部的表
+    const fullNet = new Net(schemas)
+    const fullDatabase = new Database(DataStoreType.MEMORY, false, 'teambition-sdk-invalidate', 1)
+    fullNet.persist(fullDatabase)
+    schemas.forEach(({ name, schema }) => fullDatabase.defineSchema(name, schema))
+    fullDatabase.connect()
+
+    const [ event ] = projectEvents
+    yield fullNet.lift(getEventOptions(CacheStrategy.Request)).values()
+
+    yield fullNet.invalidate({ tableName: 'Event', where: { _id: event._id } })
+
+    yield fullDatabase.get('Event', { where: { _id: event._id } }).values()
+      .do(rs => expect(rs.length).to.equal(0))
+    yield fullDatabase.dispose()
+  })
+
+  it('persistRequestCache / restore request cache saved by the last session', function* () {
+    const store = new MemoryRequestCacheStore()
+    yield net.persistRequestCache(store)
+    yield net.lift(getEventOptions(CacheStrategy.Request)).values()
+    yield Observable.timer(0)
+
+    // 模拟重新加载页面：新的 Net 实例使用同一个（持久化的）数据库
+    const reloaded = new Net(schemas)
+    reloaded.persist(database)
+    yield reloaded.persistRequestCache(store)
+    // 先返回恢复的缓存，在后台重新请求
+    const request = server
+    server = spy(() => request().delay(20))
+    const ids: string[] = []
+    const subscription = reloaded.lift(getEventOptions(CacheStrategy.Request)).changes()
+      .subscribe(([r]: any[]) => ids.push(r._id))
+    yield Observable.timer(0)
+    expect(ids).to.deep.equal([projectEvents[0]._id])
+    yield Observable.timer(40)
+    subscription.unsubscribe()
+
+    expect(reloaded['requestMap'].values().next().value.restored).to.be.undefined
+    yield reloaded.lift(getEventOptions(CacheStrategy.Request)).values()
+    expect(server.calledOnce).to.be.true
+  })
+
+  it('persistRequestCache / revalidate restored request cache with the saved ETag', function* () {
+    const [ event ] = projectEvents
+    const store = new MemoryRequestCacheStore()
+    server = spy(() => {
+      const body = { ...event }
+      new ConditionalCache().update('events', { etag: '"v1"' }, body)
+      return Observable.of(body)
+    })
+    yield net.persistRequestCache(store)
+    yield net.lift(getEventOptions(CacheStrategy.Request)).values()
+    yield Observable.timer(0)
+
+    const reloaded = new Net(schemas)
+    reloaded.persist(database)
+    yield reloaded.persistRequestCache(store)
+    expect(reloaded.getRestoredValidators()).to.deep.equal([{ url: 'events', etag: '"v1"', lastModified: undefined }])
+
+    // 新会话中的 SDKFetch 只有恢复的验证信息，没有之前的响应体
+    const conditionalCache = new ConditionalCache()
+    conditionalCache.restore(reloaded.getRestoredValidators())
+    server = spy(() => {
+      expect(conditionalCache.getRequestHeaders('events')).to.deep.equal({ 'If-None-Match': '"v1"' })
+      return Observable.of(conditionalCache.getNotModified('events')!.body)
+    })
+    const upsert = spy(database, 'upsert')
+    yield reloaded.lift(getEventOptions(CacheStrategy.Request)).values()
+      .do(([r]: any[]) => expect(r._id).to.equal(event._id))
+    yield Observable.timer(20)
+    upsert.restore()
+
+    expect(server.calledOnce).to.be.true
+    expect(upsert.called).to.be.false
+    expect(reloaded.getRestoredValidators()).to.deep.equal([])
+    expect(reloaded['requestMap'].values().next().value.etag).to.equal('"v1"')
+  })
+
+  it('persistRequestCache / save invalidated request cache', function* () {
+    const store = new MemoryRequestCacheStore()
+    yield net.persistRequestCache(store)
+    yield net.lift(getEventOptions(CacheStrategy.Request)).values()
+    yield net.invalidate({ tableName: 'Event' })
+    yield Observable.timer(0)
+
+    const cache = yield store.load()
+    expect(cache.version).to.equal(net.getSchemaVersion())
+    expect(cache.entries).to.deep.equal({})
+  })
+
+  it('persistRequestCache / discard request cache saved with another version', function* () {
+    const store = new MemoryRequestCacheStore()
+    yield net.persistRequestCache(store, 'v1')
+    yield net.lift(getEventOptions(CacheStrategy.Request)).values()
+    yield Observable.timer(0)
+
+    const reloaded = new Net(schemas)
+    reloaded.persist(database)
+    yield reloaded.persistRequestCache(store, 'v2')
+    expect(yield store.load()).to.be.null
+    yield reloaded.lift(getEventOptions(CacheStrategy.Request)).values()
+
+    expect(server.calledTwice).to.be.true
+  })
+
+  it('getSchemaVersion() should change with schemas', () => {
+    expect(new Net(schemas).getSchemaVersion()).to.equal(net.getSchemaVersion())
+    expect(new Net(schemas.slice(1)).getSchemaVersion()).to.not.equal(net.getSchemaVersion())
+  })
+
+  it('invalidate / where without tableName / throw', () => {
+    expect(() => net.invalidate({ where: { _id: 'eventid' } })).to.throw(TypeError)
+  })
+
   it('Invalid cache strategy should throw on lift call', () => {
     const fn = () => net.lift(getEventOptions(2313))
 
@@ -0,0 +1,246 @@
+import { Observable } from 'rxjs'
+import { describe, beforeEach, it } from 'tman'
+import { expect } from 'chai'
+import { Database, DataStoreType } from 'reactivedb'
+import {
+  createSdkWithoutRDB, SDK, PostSchema, NetworkError, OfflineWriteEvent, MemoryOfflineStore, HttpErrorMessage,
+  OfflineQueue
+} from '../index'
+import { createSDKError } from '../../src/Net/SDKError'
+import { projectPosts, myProjectPosts } from '../fixtures/posts.fixture'
+
+const networkError = (url: string): HttpErrorMessage => ({
+  method: 'post', url, kind: 'network',
+  error: new NetworkError({ request: { method: 'post', url } })
+})
+
+const responseError = (url: string, status: number): HttpErrorMessage => ({
+  method: 'post', url, kind: 'response',
+  error: createSDKError({ request: { method: 'post', url }, status })
+})
+
+let version = 1
+
+// 避免与其他用例创建的同名内存数据库冲突
+const createSdk = () => {
+  const sdk = createSdkWithoutRDB()
+  sdk.initReactiveDB(new Database(DataStoreType.MEMORY, false, 'teambition-sdk-offline', version++))
+  return sdk
+}
+
+export default describe('net/offline queue', () => {
+
+  let sdk: SDK
+  let sent: string[]
+  let events: OfflineWriteEvent[]
+  // 按路径决定模拟的响应，返回 HttpErrorMessage 时以其报错
+  let respond: (method: string, path: string, body: any) => any
+
+  const fixture = projectPosts[0]
+
+  beforeEach(function* () {
+    sdk = createSdk()
+    sent = []
+    events = []
+    respond = (_, __, body) => body
+    ;['post', 'put', 'delete'].forEach(method => {
+      sdk.fetch[method] = (path: string, body?: any) => Observable.defer(() => {
+        sent.push(`${method} ${path}`)
+        const result = respond(method, path, body)
+        return result && result.kind ? Observable.throw(result) : Observable.of(result)
+      })
+    })
+
+    yield sdk.enableOfflineQueue()
+    sdk.offlineQueue!.events$.subscribe(e => events.push(e))
+  })
+
+  const getPost = (_id: string) => sdk.database!.get<PostSchema>('Post', { where: { _id } }).values()
+
+  it('should send writes directly when online', function* () {
+    respond = () => fixture
+
+    yield sdk.createPost({ _projectId: fixture._projectId, title: fixture.title, content: fixture.content })
+      .do(r => expect(r).to.equal(fixture))
+
+    expect(sent).to.deep.equal(['post posts'])
+    expect(sdk.offlineQueue!.getPendingWrites().length).to.equal(0)
+  })
+
+  it('should queue the write and apply it locally on network error', function* () {
+    respond = (_, path) => networkError(path)
+    let localId = ''
+
+    yield sdk.createPost({ _projectId: fixture._projectId, title: 'offline', content: 'content' })
+      .do((r: PostSchema) => {
+        localId = r._id as string
+        expect(localId).to.match(/^offline-/)
+      })
+
+    yield getPost(localId).do(([r]) => expect(r.title).to.equal('offline'))
+
+    expect(sdk.offlineQueue!.isOnline()).to.be.false
+    expect(events.map(e => e.kind)).to.deep.equal(['queued'])
+
+    // 离线时的后续写请求直接排队，不发出
+    yield sdk.updatePost(localId as any, { title: 'still offline' })
+    expect(sent).to.deep.equal(['post posts'])
+    expect(sdk.offlineQueue!.getPendingWrites().map(w => w.method)).to.deep.equal(['create', 'update'])
+  })
+
+  it('should not queue writes failed with server response', function* () {
+    respond = (_, path) => responseError(path, 400)
+
+    yield sdk.createPost({ _projectId: fixture._projectId, title: 'bad', content: '' })
+      .catch((err: HttpErrorMessage) => {
+        expect(err.error.status).to.equal(400)
+        return Observable.of(null)
+      })
+
+    expect(sdk.offlineQueue!.getPendingWrites().length).to.equal(0)
+  })
+
+  it('should replay queued writes in order when back online', function* () {
+    const [ placeholder ] = myProjectPosts
+    yield sdk.database!.insert('Post', placeholder)
+
+    sdk.offlineQueue!.setOnline(false)
+    yield sdk.createPost({ _projectId: fixture._projectId, title: fixture.title, content: fixture.content })
+    yield sdk.updatePost(placeholder._id, { title: 'updated offline' })
+
+    yield getPost(placeholder._id as string).do(([r]) => expect(r.title).to.equal('updated offline'))
+
+    respond = (method, _, body) => method === 'post' ? fixture : { _id: placeholder._id, ...body }
+    sdk.offlineQueue!.setOnline(true)
+    yield sdk.offlineQueue!.replay()
+
+    expect(sent).to.deep.equal(['post posts', `put posts/${placeholder._id}`])
+    expect(events.map(e => e.kind)).to.deep.equal(['queued', 'queued', 'replayed', 'replayed'])
+    expect(sdk.offlineQueue!.getPendingWrites().length).to.equal(0)
+
+    // 本地临时数据被替换为服务端返回的数据
+    const localId = events[0].write.localId!
+    yield getPost(localId).do(r => expect(r.length).to.equal(0))
+    yield getPost(fixture._id as string).do(([r]) => expect(r.title).to.equal(fixture.title))
+  })
+
+  it('should report conflicts and permanent failures and continue replaying', function* () {
+    sdk.offlineQueue!.setOnline(false)
+    yield sdk.updatePost(fixture._id, { title: 'a' })
+    yield sdk.updatePost(fixture._id, { title: 'b' })
+    yield sdk.updatePost(fixture._id, { title: 'c' })
+
+    let calls = 0
+    respond = (_, path, body) => {
+      calls++
+      return calls === 1 ? responseError(path, 409) : calls === 2 ? responseError(path, 403) : body
+    }
+    sdk.offlineQueue!.setOnline(true)
+    yield sdk.offlineQueue!.replay()
+
+    expect(events.slice(3).map(e => e.kind)).to.deep.equal(['conflict', 'failed', 'replayed'])
+    const conflict = events[3] as any
+    expect(conflict.write.request.body).to.deep.equal({ title: 'a' })
+    expect(conflict.error.error.status).to.equal(409)
+  })
+
+  it('should stop replaying on transient errors and retry with backoff', function* () {
+    sdk.offlineQueue!.setOnline(false)
+    sdk.offlineQueue!['probeDelay'] = 10
+    yield sdk.updatePost(fixture._id, { title: 'a' })
+    yield sdk.updatePost(fixture._id, { title: 'b' })
+
+    let calls = 0
+    respond = (_, path, body) => ++calls === 1 ? responseError(path, 503) : body
+    sdk.offlineQueue!['online'] = true
+    yield sdk.offlineQueue!.replay()
+
+    expect(sent.length).to.equal(1)
+    expect(sdk.offlineQueue!.getPendingWrites().length).to.equal(2)
+    expect(sdk.offlineQueue!.isOnline()).to.be.true
+
+    yield Observable.timer(30)
+    expect(sent.length).to.equal(3)
+    expect(sdk.offlineQueue!.getPendingWrites().length).to.equal(0)
+    expect(sdk.offlineQueue!.isQueueing()).to.be.false
+    expect(events.map(e => e.kind)).to.deep.equal(['queued', 'queued', 'replayed', 'replayed'])
+  })
+
+  it('should roll back local changes of discarded writes', function* () {
+    const [ placeholder ] = myProjectPosts
+    yield sdk.database!.insert('Post', placeholder)
+
+    sdk.offlineQueue!.setOnline(false)
+    yield sdk.createPost({ _projectId: fixture._projectId, title: 'phantom', content: '' })
+    yield sdk.updatePost(placeholder._id, { title: 'rejected' })
+    yield getPost(placeholder._id as string).do(([r]) => expect(r.title).to.equal('rejected'))
+
+    respond = (method, path) => responseError(path, method === 'post' ? 403 : 409)
+    sdk.offlineQueue!.setOnline(true)
+    yield sdk.offlineQueue!.replay()
+
+    expect(events.slice(2).map(e => e.kind)).to.deep.equal(['failed', 'conflict'])
+    yield getPost(events[0].write.localId!).do(r => expect(r.length).to.equal(0))
+    yield getPost(placeholder._id as string).do(([r]) => expect(r.title).to.equal(placeholder.title))
+  })
+
+  it('should probe with backoff and go back online after network errors', function* () {
+    const queue = sdk.offlineQueue!
+    queue['probeDelay'] = 10
+    let networkDown = true
+    respond = (_, path, body) => networkDown ? networkError(path) : body
+
+    yield sdk.updatePost(fixture._id, { title: 'queued' })
+    expect(queue.isOnline()).to.be.false
+
+    // 第一次探测时网络仍不可用，下一次探测的间隔翻倍
+    yield Observable.timer(15)
+    expect(sent.length).to.equal(2)
+    expect(queue.isOnline()).to.be.false
+
+    networkDown = false
+    yield Observable.timer(30)
+    expect(queue.isOnline()).to.be.true
+    expect(queue.getPendingWrites().length).to.equal(0)
+    expect(events.map(e => e.kind)).to.deep.equal(['queued', 'replayed'])
+  })
+
+  it('should restore pending writes from the store and replay them when online', function* () {
+    const store = new MemoryOfflineStore()
+    const anotherSdk = createSdk()
+    anotherSdk.fetch.put = (() => Observable.throw(networkError('users'))) as any
+
+    yield anotherSdk.enableOfflineQueue(store)
+    yield anotherSdk.updateUser({ name: 'offline' })
+    yield anotherSdk.createPost({ _projectId: fixture._projectId, title: 'restored', content: '' })
+    const localId = anotherSdk.offlineQueue!.getPendingWrites()[1].localId!
+
+    respond = (method, _, body) => method === 'post' ? fixture : body
+    yield sdk.enableOfflineQueue(store)
+    yield sdk.offlineQueue!.replay()
+
+    expect(sent).to.deep.equal(['put users', 'post posts'])
+    expect(sdk.offlineQueue!.getPendingWrites().length).to.equal(0)
+    yield getPost(localId).do(r => expect(r.length).to.equal(0))
+    yield getPost(fixture._id as string).do(([r]) => expect(r.title).to.equal(fixture.title))
+  })
+
+  it('should restore pending writes locally without replaying while offline', function* () {
+    const store = new MemoryOfflineStore()
+    const anotherSdk = createSdk()
+    anotherSdk.fetch.put = (() => Observable.throw(networkError('users'))) as any
+
+    yield anotherSdk.enableOfflineQueue(store)
+    yield anotherSdk.updateUser({ name: 'offline' })
+    yield anotherSdk.createPost({ _projectId: fixture._projectId, title: 'restored', content: '' })
+
+    const queue = new OfflineQueue(() => Observable.throw(new Error('should not be sent')), store)
+      .setDatabase(sdk.database!)
+      .setOnline(false)
+    yield queue.restore()
+      .do(writes => expect(writes.map(w => w.request.path)).to.deep.equal(['users', 'posts']))
+
+    expect(queue.getPendingWrites().length).to.equal(2)
+    yield getPost(queue.getPendingWrites()[1].localId!).do(([r]) => expect(r.title).to.equal('restored'))
+  })
+})
@@ -0,0 +1,172 @@
+import { Observable } from 'rxjs'
+import { describe, beforeEach, afterEach, it } from 'tman'
+import { expect } from 'chai'
+import { Database, DataStoreType } from 'reactivedb'
+import { createSdkWithoutRDB, SDK, PostSchema, CacheStrategy, Paginator, PageParams, CursorParams } from '../index'
+import { projectPosts } from '../fixtures/posts.fixture'
+
+let version = 1
+
+// 避免与其他用例创建的同名内存数据库冲突
+const createSdk = () => {
+  const sdk = createSdkWithoutRDB()
+  sdk.initReactiveDB(new Database(DataStoreType.MEMORY, false, 'teambition-sdk-paginator', version++))
+  return sdk
+}
+
+export default describe('net/paginator', () => {
+
+  let sdk: SDK
+  let paginator: Paginator<PostSchema>
+  let requested: any[]
+
+  const _projectId = projectPosts[0]._projectId
+  const posts = projectPosts
+    .filter(post => post._projectId === _projectId)
+    .slice(0, 25)
+    .sort((a, b) => a._id < b._id ? -1 : 1)
+  const ids = (rows: any[]) => rows.map(row => row._id)
+
+  const getPageResult = (params: PageParams) => {
+    const { skip, limit } = params
+    return {
+      request: Observable.defer(() => {
+        requested.push(params.page)
+        return Observable.of(posts.slice(skip, skip + limit))
+      }),
+      tableName: 'Post',
+      cacheValidate: CacheStrategy.Request,
+      query: {
+        where: { _projectId },
+        orderBy: [ { fieldName: '_id', orderBy: 'ASC' } ],
+        skip, limit
+      }
+    } as any
+  }
+
+  beforeEach(() => {
+    sdk = createSdk()
+    requested = []
+    paginator = sdk.paginate<PostSchema>({ style: 'page', count: 10, getResult: getPageResult })
+  })
+
+  afterEach(() => {
+    paginator.dispose()
+  })
+
+  it('loadMore() should load pages in order and result$ should contain all loaded pages', function* () {
+    yield paginator.loadMore().do(rows => expect(ids(rows)).to.deep.equal(ids(posts.slice(0, 10))))
+    yield paginator.loadMore().do(rows => expect(ids(rows)).to.deep.equal(ids(posts.slice(10, 20))))
+
+    expect(requested).to.deep.equal([1, 2])
+    expect(paginator.hasMore$.getValue()).to.be.true
+    yield paginator.result$.take(1).do(rows => expect(ids(rows)).to.deep.equal(ids(posts.slice(0, 20))))
+  })
+
+  it('hasMore$ should be false after a page with less than count rows', function* () {
+    yield paginator.loadMore()
+    yield paginator.loadMore()
+    yield paginator.loadMore().do(rows => expect(rows.length).to.equal(5))
+
+    expect(paginator.hasMore$.getValue()).to.be.false
+    yield paginator.loadMore().do(rows => expect(rows).to.deep.equal([]))
+    expect(requested).to.deep.equal([1, 2, 3])
+  })
+
+  it('concurrent loadMore() should share one request and isLoading$ should reflect it', function* () {
+    const loading: boolean[] = []
+    const subscription = paginator.isLoading$.subscribe(isLoading => loading.push(isLoading))
+
+    const first = paginator.loadMore()
+    const second = paginator.loadMore()
+    expect(second).to.equal(first)
+
+    yield first
+    subscription.unsubscribe()
+
+    expect(requested).to.deep.equal([1])
+    expect(loading).to.deep.equal([false, true, false])
+  })
+
+  it('result$ should emit changes of loaded rows in ReactiveDB', function* () {
+    const [ post ] = posts
+    yield paginator.loadMore()
+
+    const results: PostSchema[][] = []
+    const subscription = paginator.result$.subscribe(rows => results.push(rows))
+
+    yield sdk.database!.update('Post', { _id: post._id }, { title: 'updated title' })
+    yield Observable.timer(20)
+    subscription.unsubscribe()
+
+    expect(results[results.length - 1][0].title).to.equal('updated title')
+  })
+
+  it('reset() should drop loaded pages and start from the first page', function* () {
+    yield paginator.loadMore()
+    yield paginator.loadMore()
+
+    paginator.reset()
+    expect(paginator.hasMore$.getValue()).to.be.true
+    yield paginator.result$.take(1).do(rows => expect(rows).to.deep.equal([]))
+
+    yield paginator.loadMore().do(rows => expect(ids(rows)).to.deep.equal(ids(posts.slice(0, 10))))
+  })
+
+  it('reset() should discard the in-flight loadMore()', function* () {
+    const slowPaginator = sdk.paginate<PostSchema>({
+      style: 'page',
+      count: 10,
+      getResult: params => ({ ...getPageResult(params), request: getPageResult(params).request.delay(20) })
+    })
+    const stale: PostSchema[][] = []
+    let completed = false
+    slowPaginator.loadMore().subscribe(rows => stale.push(rows), undefined, () => completed = true)
+
+    slowPaginator.reset()
+    expect(completed).to.be.true
+    expect(slowPaginator.isLoading$.getValue()).to.be.false
+
+    yield Observable.timer(30)
+    expect(stale).to.deep.equal([])
+    yield slowPaginator.result$.take(1).do(rows => expect(rows).to.deep.equal([]))
+
+    yield slowPaginator.loadMore().do(rows => expect(ids(rows)).to.deep.equal(ids(posts.slice(0, 10))))
+    expect(slowPaginator['page']).to.equal(2)
+    slowPaginator.dispose()
+  })
+
+  it('cursor style should request with the cursor from response headers', function* () {
+    const cursors: (string | null)[] = []
+    const cursorPaginator = sdk.paginate<PostSchema>({
+      style: 'cursor',
+      count: 10,
+      getResult: (params: CursorParams) => {
+        const { cursor, skip, limit } = params
+        cursors.push(cursor)
+        const start = cursor ? Number(cursor) : 0
+        const next = start + limit < posts.length ? String(start + limit) : ''
+        return {
+          request: Observable.of({ headers: next ? { next } : {}, body: posts.slice(start, start + limit) }),
+          tableName: 'Post',
+          cacheValidate: CacheStrategy.Cache,
+          query: {
+            where: { _projectId },
+            orderBy: [ { fieldName: '_id', orderBy: 'ASC' } ],
+            skip, limit
+          }
+        } as any
+      }
+    })
+
+    yield cursorPaginator.loadMore()
+    yield cursorPaginator.loadMore()
+    expect(cursorPaginator.hasMore$.getValue()).to.be.true
+    yield cursorPaginator.loadMore().do(rows => expect(rows.length).to.equal(5))
+
+    expect(cursors).to.deep.equal([null, '10', '20'])
+    expect(cursorPaginator.hasMore$.getValue()).to.be.false
+    yield cursorPaginator.result$.take(1).do(rows => expect(ids(rows)).to.deep.equal(ids(posts)))
+    cursorPaginator.dispose()
+  })
+})
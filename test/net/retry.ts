@@ -0,0 +1,178 @@
+import { Observable, Scheduler } from 'rxjs'
+import { expect } from 'chai'
+import { describe, it, beforeEach, afterEach } from 'tman'
+
+import { HttpErrorMessage, Http, SDKFetch } from '../index'
+import { getRetryDelay, normRetryOptions, parseRetryAfter } from '../../src/Net/Retry'
+import { createSDKError } from '../../src/Net/SDKError'
+
+const fetchMock = require('fetch-mock')
+
+export default describe('net/retry', () => {
+
+  let fetchInstance: Http<any>
+  let url: string
+  const apiHost = 'https://www.teambition.com/api'
+  const path = 'test'
+  const fastRetry = { delay: 1, jitter: false }
+
+  // 前 failures 次返回 status，之后返回 { ok: true }
+  const mockFlakyResponse = (failures: number, status: number, headers: {} = {}) => {
+    let calls = 0
+    fetchMock.mock(new RegExp(url), () => {
+      calls++
+      return calls <= failures
+        ? { status, body: {}, headers }
+        : { body: { ok: true } }
+    })
+  }
+
+  beforeEach(() => {
+    url = `${apiHost}/${path}`
+    fetchInstance = new Http(url)
+  })
+
+  afterEach(() => {
+    fetchMock.restore()
+  })
+
+  it('should retry get on 503 by default', function* () {
+    mockFlakyResponse(2, 503)
+
+    yield fetchInstance.setRetry(fastRetry).get().send()
+      .subscribeOn(Scheduler.asap)
+      .do((resp: any) => {
+        expect(resp).to.deep.equal({ ok: true })
+        expect(fetchMock.calls().matched.length).to.equal(3)
+      })
+  })
+
+  it('should give up after maxRetries', function* () {
+    mockFlakyResponse(3, 502)
+
+    yield fetchInstance.setRetry({ ...fastRetry, maxRetries: 1 }).get().send()
+      .catch((err: HttpErrorMessage) => {
+        expect(err.error.status).to.equal(502)
+        expect(fetchMock.calls().matched.length).to.equal(2)
+        return Observable.empty()
+      })
+      .subscribeOn(Scheduler.asap)
+  })
+
+  it('should not retry status codes that are not retryable', function* () {
+    mockFlakyResponse(1, 400)
+
+    yield fetchInstance.setRetry(fastRetry).get().send()
+      .catch((err: HttpErrorMessage) => {
+        expect(err.error.status).to.equal(400)
+        expect(fetchMock.calls().matched.length).to.equal(1)
+        return Observable.empty()
+      })
+      .subscribeOn(Scheduler.asap)
+  })
+
+  it('should not retry writes by default', function* () {
+    mockFlakyResponse(1, 503)
+
+    yield fetchInstance.setRetry(fastRetry).post({}).send()
+      .catch((err: HttpErrorMessage) => {
+        expect(err.error.status).to.equal(503)
+        expect(fetchMock.calls().matched.length).to.equal(1)
+        return Observable.empty()
+      })
+      .subscribeOn(Scheduler.asap)
+  })
+
+  it('should retry writes when asked', function* () {
+    mockFlakyResponse(1, 503)
+
+    yield fetchInstance.setRetry({ ...fastRetry, methods: ['post'] }).post({}).send()
+      .subscribeOn(Scheduler.asap)
+      .do((resp: any) => {
+        expect(resp).to.deep.equal({ ok: true })
+        expect(fetchMock.calls().matched.length).to.equal(2)
+      })
+  })
+
+  it('should not retry when retry is disabled', function* () {
+    mockFlakyResponse(1, 503)
+
+    yield fetchInstance.setRetry(false).get().send()
+      .catch(() => {
+        expect(fetchMock.calls().matched.length).to.equal(1)
+        return Observable.empty()
+      })
+      .subscribeOn(Scheduler.asap)
+  })
+
+  it('SDKFetch should merge per-request retry options into its own', function* () {
+    const sdkFetch = new SDKFetch().setRetry({ ...fastRetry, maxRetries: 0 })
+    mockFlakyResponse(1, 503)
+
+    yield sdkFetch.post(path, {}, { retry: { maxRetries: 1, methods: ['post'] } })
+      .subscribeOn(Scheduler.asap)
+      .do((resp: any) => {
+        expect(resp).to.deep.equal({ ok: true })
+        expect(fetchMock.calls().matched.length).to.equal(2)
+      })
+  })
+
+  it('parseRetryAfter() should support both seconds and http-date', () => {
+    const now = Date.now()
+    const withRetryAfter = (value: string) => ({
+      error: createSDKError({
+        request: { method: 'get', url },
+        status: 503,
+        headers: new Headers({ 'Retry-After': value })
+      })
+    } as HttpErrorMessage)
+
+    expect(parseRetryAfter(withRetryAfter('2'), now)).to.equal(2000)
+    expect(parseRetryAfter(withRetryAfter(new Date(now + 3000).toUTCString()), now)).to.be.closeTo(3000, 1000)
+    expect(parseRetryAfter(withRetryAfter('invalid'), now)).to.be.null
+    expect(parseRetryAfter({ error: new TypeError('network') } as any)).to.be.null
+  })
+
+  it('getRetryDelay() should follow the backoff curve and be capped by maxDelay', () => {
+    const err = { error: new TypeError('network') } as any
+    const options = normRetryOptions({ delay: 100, maxDelay: 350, jitter: false })!
+
+    expect([0, 1, 2].map(n => getRetryDelay(n, err, options))).to.deep.equal([100, 200, 350])
+    expect(getRetryDelay(2, err, { ...options, backoff: 'linear' })).to.equal(300)
+    expect(getRetryDelay(2, err, { ...options, backoff: 'constant' })).to.equal(100)
+
+    const jittered = getRetryDelay(1, err, { ...options, jitter: true })
+    expect(jittered).to.be.within(0, 200)
+  })
+
+  it('getRetryDelay() should honour Retry-After', () => {
+    const err = {
+      error: createSDKError({
+        request: { method: 'get', url },
+        status: 429,
+        headers: new Headers({ 'Retry-After': '1' })
+      })
+    } as HttpErrorMessage
+    const options = normRetryOptions({ delay: 100, jitter: false })!
+
+    expect(getRetryDelay(0, err, options)).to.equal(1000)
+    expect(getRetryDelay(0, err, { ...options, respectRetryAfter: false })).to.equal(100)
+    // 不在服务端要求的时间之前重试
+    expect(getRetryDelay(0, err, { ...options, maxDelay: 500 })).to.be.null
+  })
+
+  it('should not retry when Retry-After is longer than maxDelay', function* () {
+    mockFlakyResponse(1, 503, { 'Retry-After': '60' })
+    let failed = false
+
+    yield fetchInstance.setRetry({ ...fastRetry, maxDelay: 100 }).get().send()
+      .catch((err: HttpErrorMessage) => {
+        failed = true
+        expect(err.error.status).to.equal(503)
+        return Observable.empty()
+      })
+      .subscribeOn(Scheduler.asap)
+    expect(failed).to.be.true
+    expect(fetchMock.calls().matched.length).to.equal(1)
+  })
+})
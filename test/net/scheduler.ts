@@ -0,0 +1,153 @@
+import { Observable, Subject } from 'rxjs'
+import { expect } from 'chai'
+import { describe, it, beforeEach } from 'tman'
+
+import { RequestScheduler, RequestWaitRecord } from '../index'
+import { getHost } from '../../src/Net/RequestScheduler'
+
+export default describe('net/scheduler', () => {
+
+  let scheduler: RequestScheduler
+  let started: string[]
+  let responses: { [name: string]: Subject<string> }
+  const apiHost = 'https://www.teambition.com/api'
+
+  // 被订阅（即实际发出）时记录 name，由 responses[name] 控制何时完成
+  const request = (name: string, priority?: any, host: string = apiHost) => {
+    const response$ = responses[name] = new Subject<string>()
+    const request$ = Observable.defer(() => {
+      started.push(name)
+      return response$.take(1)
+    })
+    return scheduler.schedule(request$, `${host}/${name}`, priority)
+  }
+
+  beforeEach(() => {
+    scheduler = new RequestScheduler()
+    started = []
+    responses = {}
+  })
+
+  it('should send requests immediately when there is no limit', () => {
+    request('a').subscribe()
+    request('b').subscribe()
+
+    expect(started).to.deep.equal(['a', 'b'])
+    expect(scheduler.getState().active).to.equal(2)
+  })
+
+  it('should limit the number of concurrent requests', () => {
+    scheduler.configure({ maxConcurrent: 2 })
+    const results: string[] = []
+
+    ;['a', 'b', 'c'].forEach(name => request(name).subscribe(r => results.push(r)))
+    expect(started).to.deep.equal(['a', 'b'])
+    expect(scheduler.getState()).to.deep.equal({
+      active: 2,
+      queued: 1,
+      queuedByPriority: { high: 0, normal: 1, low: 0 }
+    })
+
+    responses['a'].next('a')
+    expect(started).to.deep.equal(['a', 'b', 'c'])
+    expect(results).to.deep.equal(['a'])
+    expect(scheduler.getState().active).to.equal(2)
+  })
+
+  it('should release the slot when a request errors', () => {
+    scheduler.configure({ maxConcurrent: 1 })
+
+    request('a').subscribe({ error: () => void 0 })
+    request('b').subscribe()
+
+    responses['a'].error(new Error('failed'))
+    expect(started).to.deep.equal(['a', 'b'])
+  })
+
+  it('should send queued requests in order of priority', () => {
+    scheduler.configure({ maxConcurrent: 1 })
+
+    request('blocking').subscribe()
+    request('prefetch', 'low').subscribe()
+    request('read').subscribe()
+    request('write', 'high').subscribe()
+
+    ;['blocking', 'write', 'read'].forEach(name => responses[name].next(name))
+    expect(started).to.deep.equal(['blocking', 'write', 'read', 'prefetch'])
+  })
+
+  it('should remove a request from the queue when it is unsubscribed before sent', () => {
+    scheduler.configure({ maxConcurrent: 1 })
+
+    request('a').subscribe()
+    const subscription = request('b').subscribe()
+    request('c').subscribe()
+    expect(scheduler.getState().queued).to.equal(2)
+
+    subscription.unsubscribe()
+    expect(scheduler.getState().queued).to.equal(1)
+
+    responses['a'].next('a')
+    expect(started).to.deep.equal(['a', 'c'])
+  })
+
+  it('should release the slot when a sent request is unsubscribed', () => {
+    scheduler.configure({ maxConcurrent: 1 })
+
+    const subscription = request('a').subscribe()
+    request('b').subscribe()
+
+    subscription.unsubscribe()
+    expect(started).to.deep.equal(['a', 'b'])
+    expect(scheduler.getState().active).to.equal(1)
+  })
+
+  it('should rate limit requests to the same host', function* () {
+    scheduler.configure({ rateLimit: { limit: 2, interval: 40 } })
+    const waits: RequestWaitRecord[] = []
+    const subscription = scheduler.wait$.subscribe(record => waits.push(record))
+
+    ;['a', 'b', 'c'].forEach(name => request(name).subscribe())
+    request('other', 'normal', 'https://tcs.teambition.net').subscribe()
+    expect(started).to.deep.equal(['a', 'b', 'other'])
+    // 等待中的请求不阻止 Node.js 进程退出
+    expect(scheduler['timer'].hasRef()).to.be.false
+
+    yield Observable.timer(50)
+    subscription.unsubscribe()
+
+    expect(started).to.deep.equal(['a', 'b', 'other', 'c'])
+    const waitOfC = waits.filter(record => record.url === `${apiHost}/c`)[0]
+    expect(waitOfC.host).to.equal('www.teambition.com')
+    expect(waitOfC.waitTime).to.be.at.least(15)
+  })
+
+  it('rateLimitPerHost should override rateLimit', () => {
+    scheduler.configure({
+      rateLimit: { limit: 1, interval: 1000 },
+      rateLimitPerHost: { 'www.teambition.com': false }
+    })
+
+    ;['a', 'b', 'c'].forEach(name => request(name).subscribe())
+    expect(started).to.deep.equal(['a', 'b', 'c'])
+  })
+
+  it('state$ should emit changes of queue depth', () => {
+    scheduler.configure({ maxConcurrent: 1 })
+    const queued: number[] = []
+    const subscription = scheduler.state$.subscribe(state => queued.push(state.queued))
+
+    request('a').subscribe()
+    request('b').subscribe()
+    responses['a'].next('a')
+    subscription.unsubscribe()
+
+    expect(queued).to.deep.equal([0, 0, 1, 0])
+  })
+
+  it('getHost() should return the host of url', () => {
+    expect(getHost('https://www.teambition.com/api/tasks?_id=1')).to.equal('www.teambition.com')
+    expect(getHost('//localhost:3000/api')).to.equal('localhost:3000')
+    expect(getHost('/api/tasks')).to.equal('')
+  })
+})
@@ -4,3 +4,5 @@ import './tableAlias.spec'
 import './mapToTable.spec'
 import './middleware.spec'
 import './interceptors.spec'
+import './socketEvents.spec'
+import './messageGuard.spec'
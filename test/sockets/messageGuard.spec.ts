@@ -0,0 +1,129 @@
+import 'rxjs/add/observable/merge'
+import 'rxjs/add/observable/of'
+import 'rxjs/add/observable/throw'
+import 'rxjs/add/operator/catch'
+import 'rxjs/add/observable/timer'
+import 'rxjs/add/operator/do'
+import 'rxjs/add/operator/mapTo'
+import { Observable } from 'rxjs/Observable'
+import { describe, beforeEach, afterEach, it } from 'tman'
+import { expect } from 'chai'
+import { createSdk, SDK, SocketMock } from '../'
+import { MessageGuard } from '../../src/sockets/MessageGuard'
+import { mapMsgTypeToTable } from '../../src/sockets/MapToTable'
+import { restore } from '../utils'
+
+describe('MessageGuard spec', () => {
+  const taskId = '5a17b9a5a58dd8a0cddec5e6'
+  const msg = (method: string, data: any, id: string = taskId): any =>
+    ({ method, id, type: 'task', data, source: `:${method}:task/${id}` })
+
+  let guard: MessageGuard
+  let applied: any[]
+  const handler = (delay: number) => (m: any) => Observable.timer(delay)
+    .do(() => applied.push([m.method, m.data]))
+    .mapTo(null)
+
+  beforeEach(() => {
+    guard = new MessageGuard(mapMsgTypeToTable)
+    applied = []
+  })
+
+  it('should apply messages on the same entity in order', function* () {
+    yield Observable.merge(
+      guard.apply(msg('change', { content: 'a' }), handler(20)),
+      guard.apply(msg('destroy', null), handler(0))
+    )
+    expect(applied).to.deep.equal([['change', { content: 'a' }], ['destroy', null]])
+  })
+
+  it('should not serialize messages on different entities', function* () {
+    yield Observable.merge(
+      guard.apply(msg('change', { content: 'a' }), handler(20)),
+      guard.apply(msg('destroy', null, 'other'), handler(0))
+    )
+    expect(applied.map(([method]) => method)).to.deep.equal(['destroy', 'change'])
+  })
+
+  it('should drop stale and duplicated patches', function* () {
+    const newer = { content: 'b', updated: '2018-01-02T00:00:00.000Z' }
+    yield guard.apply(msg('change', newer), handler(0))
+    yield guard.apply(msg('change', { content: 'a', updated: '2018-01-01T00:00:00.000Z' }), handler(0))
+    yield guard.apply(msg('change', { ...newer }), handler(0))
+    yield guard.apply(msg('change', { content: 'c', updated: newer.updated }), handler(0))
+    yield guard.apply(msg('change', { content: 'd' }), handler(0))
+
+    expect(applied.map(([, data]) => data.content)).to.deep.equal(['b', 'c', 'd'])
+  })
+
+  it('should record the version only after the message is written', function* () {
+    const patch = { content: 'b', updated: '2018-01-02T00:00:00.000Z' }
+    const failed = () => Observable.throw(new Error('write failed'))
+    yield guard.apply(msg('change', patch), failed)
+      .catch(() => Observable.of(null))
+    yield guard.apply(msg('change', { ...patch }), handler(0))
+
+    expect(applied.map(([, data]) => data.content)).to.deep.equal(['b'])
+  })
+
+  it('should drop stale items in batched changes', function* () {
+    yield guard.apply(msg('change', { updated: '2018-01-02T00:00:00.000Z' }, 'a'), handler(0))
+    yield guard.apply(msg('change', [
+      { _id: 'a', isDone: true, updated: '2018-01-01T00:00:00.000Z' },
+      { _id: 'b', isDone: true, updated: '2018-01-01T00:00:00.000Z' }
+    ], '597fdea5528664cd3c81ebd9'), handler(0))
+    yield guard.apply(msg('change', [
+      { _id: 'a', isDone: true, updated: '2018-01-01T00:00:00.000Z' }
+    ], '597fdea5528664cd3c81ebd9'), handler(0))
+
+    expect(applied).to.have.lengthOf(2)
+    expect(applied[1][1]).to.deep.equal([{ _id: 'b', isDone: true, updated: '2018-01-01T00:00:00.000Z' }])
+  })
+})
+
+describe('Socket ordering spec', () => {
+  let sdk: SDK
+  let socket: SocketMock
+
+  const _id = '5a17b9a5a58dd8a0cddec5e6'
+
+  beforeEach(() => {
+    sdk = createSdk()
+    socket = new SocketMock(sdk.socketClient)
+  })
+
+  afterEach(() => {
+    restore(sdk)
+  })
+
+  it('should not let an older push overwrite a newer push', function* () {
+    yield sdk.database.upsert('Task', { _id, content: 'origin' })
+    yield socket.emit('change', 'task', _id, { content: 'newer', updated: '2018-01-02T00:00:00.000Z' })
+    yield socket.emit('change', 'task', _id, { content: 'older', updated: '2018-01-01T00:00:00.000Z' })
+
+    yield sdk.database.get('Task', { where: { _id } })
+      .values()
+      .do(([r]) => expect((r as any).content).to.equal('newer'))
+  })
+
+  it('should not let an older push overwrite a newer row in ReactiveDB', function* () {
+    yield sdk.database.upsert('Task', { _id, content: 'newer', updated: '2018-01-02T00:00:00.000Z' })
+    yield socket.emit('change', 'task', _id, { content: 'older', updated: '2018-01-01T00:00:00.000Z' })
+
+    yield sdk.database.get('Task', { where: { _id } })
+      .values()
+      .do(([r]) => expect((r as any).content).to.equal('newer'))
+  })
+
+  it('should not resurrect a row by a change pushed before its destroy', function* () {
+    yield sdk.database.upsert('Task', { _id, content: 'origin' })
+    yield Promise.all([
+      socket.emit('change', 'task', _id, { content: 'changed' }),
+      socket.emit('destroy', 'task', _id)
+    ])
+
+    yield sdk.database.get('Task', { where: { _id } })
+      .values()
+      .do(rs => expect(rs).to.have.lengthOf(0))
+  })
+})
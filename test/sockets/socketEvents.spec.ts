@@ -0,0 +1,115 @@
+import { describe, beforeEach, afterEach, it } from 'tman'
+import { expect } from 'chai'
+import { createSdk, SDK, SocketMock, Socket, schemaColl } from '../'
+import { restore } from '../utils'
+
+// 对象字面量的键须与 SocketModels 完全一致，增删模型时编译即报错
+const socketModelTables: { [K in Socket.SocketModelType]: string } = {
+  activity: 'Activity',
+  collection: 'Collection',
+  customField: 'CustomField',
+  customFieldLink: 'CustomFieldLink',
+  customRole: 'CustomRole',
+  defaultRole: 'DefaultRole',
+  event: 'Event',
+  file: 'File',
+  group: 'Group',
+  like: 'Like',
+  member: 'Member',
+  message: 'Message',
+  objectLink: 'ObjectLink',
+  organization: 'Organization',
+  post: 'Post',
+  preference: 'Preference',
+  project: 'Project',
+  projectTag: 'ProjectTag',
+  room: 'Room',
+  scenarioFieldConfig: 'ScenarioFieldConfig',
+  smartGroup: 'SmartGroup',
+  sprint: 'Sprint',
+  stage: 'Stage',
+  subtask: 'Subtask',
+  tag: 'Tag',
+  tapChart: 'TapChart',
+  tapDashboard: 'TapDashboard',
+  task: 'Task',
+  taskflow: 'Taskflow',
+  taskflowStatus: 'TaskflowStatus',
+  tasklist: 'Tasklist',
+  team: 'Team',
+  user: 'User'
+}
+
+describe('SocketEvents spec', () => {
+  let sdk: SDK
+  let socket: SocketMock
+
+  const _projectId = '597fdea5528664cd3c81ebd9'
+  const taskId = '5a17b9a5a58dd8a0cddec5e6'
+
+  beforeEach(() => {
+    sdk = createSdk()
+    socket = new SocketMock(sdk.socketClient)
+  })
+
+  afterEach(() => {
+    restore(sdk)
+  })
+
+  it('SocketModels should have an entry for every table in schemaColl', () => {
+    const tables = Object.keys(socketModelTables).map(model => socketModelTables[model])
+    expect(tables.sort()).to.deep.equal(schemaColl.listTableNames().sort())
+    Object.keys(socketModelTables).forEach(model => {
+      expect(sdk.socketClient['mapToTable'].getTableName(model)).to.equal(socketModelTables[model])
+    })
+  })
+
+  it('should push typed change events of the given model', function* () {
+    const events: any[] = []
+    const subscription = sdk.socketEvents.on('change', 'task')
+      .subscribe(({ id, patch }) => events.push({ id, patch }))
+
+    yield socket.emit('change', 'task', taskId, { isDone: true })
+    yield socket.emit('change', 'post', taskId, { title: 'post' })
+    yield socket.emit('destroy', 'task', taskId)
+
+    expect(events).to.deep.equal([{ id: taskId, patch: { isDone: true } }])
+    subscription.unsubscribe()
+  })
+
+  it('should split batched change and remove events', function* () {
+    const changes: any[] = []
+    const removals: string[] = []
+    const subscriptions = [
+      sdk.socketEvents.on('change', 'task').subscribe(({ id }) => changes.push(id)),
+      sdk.socketEvents.on('remove', 'task').subscribe(({ id }) => removals.push(id as any))
+    ]
+
+    yield socket.emit('change', 'tasks', _projectId, [{ _id: 'a', isDone: true }, { _id: 'b', isDone: true }])
+    yield socket.emit('remove', 'tasks', _projectId, ['c', 'd'])
+
+    expect(changes).to.deep.equal(['a', 'b'])
+    expect(removals).to.deep.equal(['c', 'd'])
+    subscriptions.forEach(subscription => subscription.unsubscribe())
+  })
+
+  it('should map message types through TableAlias', function* () {
+    const created: any[] = []
+    const subscription = sdk.socketEvents.on('new', 'file')
+      .subscribe(({ id, data }) => created.push({ id, data }))
+
+    yield socket.emit('new', 'works', _projectId, { _id: 'file1', fileName: 'a.png' })
+
+    expect(created).to.deep.equal([{ id: 'file1', data: { _id: 'file1', fileName: 'a.png' } }])
+    subscription.unsubscribe()
+  })
+
+  it('should share the subscription of the same event', () => {
+    const event$ = sdk.socketEvents.on('destroy', 'task')
+    expect(sdk.socketEvents.on('destroy', 'task')).to.equal(event$)
+  })
+
+  it('should throw when the model has no table', () => {
+    expect(() => sdk.socketEvents.on('change', 'nonexistent' as any)).to.throw(TypeError)
+  })
+})
@@ -291,6 +291,266 @@ describe('Socket interceptors', () => {
 
 })
 
+describe('Socket refresh Spec', () => {
+  let sdk: SDK
+  let socket: SocketMock
+  let invalidate: sinon.SinonSpy
+
+  const _projectId = '597fdea5528664cd3c81ebd9'
+
+  beforeEach(() => {
+    sdk = createSdk()
+    socket = new SocketMock(sdk.socketClient)
+    invalidate = sinon.spy(sdk.net, 'invalidate')
+    sdk.socketClient.setRefreshThrottle(20)
+  })
+
+  afterEach(() => {
+    invalidate.restore()
+    sdk.socketClient.destroy()
+    restore(sdk)
+  })
+
+  it('should invalidate queries in the scope of the refresh push', function* () {
+    yield socket.emit('refresh', 'tasks', _projectId)
+
+    expect(invalidate).calledOnce.and.calledWith({ tableName: 'Task', whereValue: _projectId })
+  })
+
+  it('should merge refresh pushes within the throttle time', function* () {
+    const otherProjectId = '597fdea5528664cd3c81ebda'
+    yield socket.emit('refresh', 'tasks', _projectId)
+    yield socket.emit('refresh', 'tasks', _projectId)
+    yield socket.emit('refresh', 'tasks', otherProjectId)
+    yield socket.emit('refresh', 'tasks', _projectId)
+    expect(invalidate).calledOnce
+
+    yield Observable.timer(30)
+    expect(invalidate).calledThrice
+    expect(invalidate.secondCall).calledWith({ tableName: 'Task', whereValue: _projectId })
+    expect(invalidate.thirdCall).calledWith({ tableName: 'Task', whereValue: otherProjectId })
+
+    yield Observable.timer(30)
+    yield socket.emit('refresh', 'tasks', _projectId)
+    expect(invalidate.callCount).to.equal(4)
+  })
+
+  it('should allow interceptors to skip the built-in refresh handling', function* () {
+    sdk.socketClient.interceptors.append((msg) => {
+      return msg.method === 'refresh' ? Observable.of(null) : undefined
+    })
+
+    yield socket.emit('refresh', 'tasks', _projectId)
+
+    expect(invalidate).not.called
+  })
+})
+
+describe('Socket reconnection Spec', () => {
+  let sdk: SDK
+  let client: Socket.Client
+  let consumer: any
+  let joinRoom: sinon.SinonStub
+  let invalidate: sinon.SinonSpy
+  let states: Socket.ConnectionState[]
+
+  beforeEach(function* () {
+    sdk = createSdk()
+    client = sdk.socketClient
+    consumer = { consumerId: 'consumer1', connection: { readyState: 'open' } }
+    joinRoom = sinon.stub(sdk.fetch, 'joinRoom').callsFake(() => Promise.resolve())
+    invalidate = sinon.spy(sdk.net, 'invalidate')
+    yield client.initClient(consumer, {} as any)
+    yield consumer._join('projects/1', 'consumer1')
+    states = []
+    client.connectionState$.subscribe(state => states.push(state))
+  })
+
+  afterEach(() => {
+    joinRoom.restore()
+    invalidate.restore()
+    restore(sdk)
+  })
+
+  it('should be open without resyncing on the first connection', function* () {
+    yield consumer.onopen()
+
+    expect(states).to.deep.equal(['closed', 'open'])
+    expect(invalidate).not.called
+    expect(client.getDisconnectedAt()).to.be.null
+  })
+
+  it('should rejoin rooms with the new consumerId and refetch live queries of the rooms after reconnecting', function* () {
+    yield consumer.onopen()
+    joinRoom.resetHistory()
+
+    consumer.connection.readyState = 'closed'
+    consumer.onerror(new Error('transport close'))
+    expect(client.getDisconnectedAt()).to.be.a('number')
+
+    consumer.consumerId = 'consumer2'
+    consumer.connection.readyState = 'open'
+    yield consumer.onopen()
+
+    expect(states).to.deep.equal(['closed', 'open', 'closed', 'resyncing', 'open'])
+    expect(joinRoom).calledOnce.and.calledWith('projects/1', 'consumer2')
+    expect(invalidate).calledOnce.and.calledWith({ whereValue: '1' })
+    expect(client.getDisconnectedAt()).to.be.null
+  })
+
+  it('should refresh the table of rooms without id after reconnecting', function* () {
+    yield consumer._join('projects', 'consumer1')
+    consumer.onclose()
+    yield consumer.onopen()
+
+    expect(invalidate).calledTwice
+    expect(invalidate.firstCall).calledWith({ whereValue: '1' })
+    expect(invalidate.secondCall).calledWith({ tableName: 'Project' })
+  })
+
+  it('should reconnect with the tcmToken fetched after the token is refreshed', function* () {
+    const getUserMe = sinon.stub(sdk.fetch, 'getUserMe').callsFake(() => Observable.of({ tcmToken: 'tcmToken2' }))
+    sdk.fetch.setTokenProvider(() => Promise.resolve('token2'))
+
+    yield sdk.fetch.refreshToken()
+    yield Observable.timer(0)
+    getUserMe.restore()
+
+    expect(getUserMe).calledOnce
+    expect(consumer.getToken()).to.equal('tcmToken2')
+  })
+
+  it('should not treat errors on an open connection as disconnection', function* () {
+    yield consumer.onopen()
+    consumer.onerror(new Error('invalid message'))
+
+    expect(states).to.deep.equal(['closed', 'open'])
+    expect(client.getDisconnectedAt()).to.be.null
+  })
+
+  it('should refresh caches returned by the resync resolver', function* () {
+    const resolver = sinon.spy(() => [{ tableName: 'Task' }, { tableName: 'Post' }])
+    client.setResyncResolver(resolver)
+
+    consumer.onclose()
+    const disconnectedAt = client.getDisconnectedAt()
+    yield consumer.onopen()
+
+    expect(resolver).calledWith({ disconnectedAt, rooms: ['projects/1'] })
+    expect(invalidate).calledTwice
+    expect(invalidate.firstCall).calledWith({ tableName: 'Task' })
+    expect(invalidate.secondCall).calledWith({ tableName: 'Post' })
+    expect(states).to.deep.equal(['closed', 'closed', 'resyncing', 'open'])
+  })
+})
+
+describe('Room subscription Spec', () => {
+  let sdk: SDK
+  let client: Socket.Client
+  let consumer: any
+  let joinRoom: sinon.SinonStub
+  let leaveRoom: sinon.SinonStub
+
+  // 模拟 snapper-consumer：连接前排队，连接后立即加入
+  const createConsumer = () => ({
+    consumerId: null as string | null,
+    joinQueue: [] as string[],
+    join(room: string) {
+      if (this.consumerId) {
+        this._join(room, this.consumerId)
+      } else {
+        this.joinQueue.push(room)
+      }
+      return this
+    },
+    open(consumerId: string) {
+      this.consumerId = consumerId
+      this.onopen()
+      while (this.joinQueue.length) {
+        this._join(this.joinQueue.shift()!, consumerId)
+      }
+    }
+  } as any)
+
+  beforeEach(function* () {
+    sdk = createSdk()
+    client = sdk.socketClient
+    consumer = createConsumer()
+    joinRoom = sinon.stub(sdk.fetch, 'joinRoom').callsFake(() => Promise.resolve())
+    leaveRoom = sinon.stub(sdk.fetch, 'leaveRoom').callsFake(() => Promise.resolve())
+    yield client.initClient(consumer, {} as any)
+  })
+
+  afterEach(() => {
+    joinRoom.restore()
+    leaveRoom.restore()
+    restore(sdk)
+  })
+
+  it('should join once and leave when the last subscription is released', function* () {
+    consumer.open('consumer1')
+    const first = client.subscribe('projects/1')
+    const second = client.subscribe('projects/1')
+    yield Promise.resolve()
+
+    expect(joinRoom).calledOnce.and.calledWith('projects/1', 'consumer1')
+    expect(client.getRoomRefCount('projects/1')).to.equal(2)
+
+    yield first.unsubscribe()
+    yield first.unsubscribe()
+    expect(first.closed).to.be.true
+    expect(leaveRoom).not.called
+    expect(client.getRoomRefCount('projects/1')).to.equal(1)
+
+    yield second.unsubscribe()
+    expect(leaveRoom).calledOnce.and.calledWith('projects/1', 'consumer1')
+    expect(client.getRoomRefCount('projects/1')).to.equal(0)
+  })
+
+  it('should be able to rejoin a room after leaving it', function* () {
+    consumer.open('consumer1')
+    yield client.subscribe('projects/1').unsubscribe()
+    client.subscribe('projects/1')
+    yield Promise.resolve()
+
+    expect(joinRoom).calledTwice
+    expect(leaveRoom).calledOnce
+  })
+
+  it('should not join a room released before connecting', function* () {
+    yield client.subscribe('projects/1').unsubscribe()
+    client.subscribe('projects/2')
+    consumer.open('consumer1')
+
+    expect(joinRoom).calledOnce.and.calledWith('projects/2', 'consumer1')
+    expect(leaveRoom).not.called
+  })
+
+  it('should rejoin subscribed rooms after reconnecting', function* () {
+    consumer.open('consumer1')
+    client.subscribe('projects/1')
+    yield Promise.resolve()
+    joinRoom.resetHistory()
+
+    consumer.onclose()
+    consumer.open('consumer2')
+
+    expect(joinRoom).calledOnce.and.calledWith('projects/1', 'consumer2')
+  })
+
+  it('should subscribe to a group room through sdk.subscribeGroup', function* () {
+    consumer.open('consumer1')
+    const subscription = sdk.subscribeGroup('group1' as any)
+    yield Promise.resolve()
+
+    expect(subscription.room).to.equal('groups/group1')
+    expect(joinRoom).calledWith('groups/group1', 'consumer1')
+
+    yield subscription.unsubscribe()
+    expect(leaveRoom).calledWith('groups/group1', 'consumer1')
+  })
+})
+
 describe('join/leave `room`', () => {
 
   const sampleRoom = 'projects'
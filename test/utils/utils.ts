@@ -12,7 +12,8 @@ import {
   normPagingQuery,
   isEmptyObject,
   hasMorePages,
-  eventToRE
+  eventToRE,
+  decodeBase64
 } from '../index'
 
 const expect = chai.expect
@@ -347,4 +348,10 @@ export default describe('utils test', () => {
     expect(() => eventToRE('')).to.throw('Invalid socket event')
     expect(() => eventToRE('\*')).to.throw('Invalid socket event')
   })
+
+  it('decodeBase64 should decode base64url payload of jwt', () => {
+    const payload = JSON.stringify({ userId: '56986d43542ce1a2798c8cfb', exp: 1 })
+    const encoded = Buffer.from(payload).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+    expect(JSON.parse(decodeBase64(encoded))).to.deep.equal(JSON.parse(payload))
+  })
 })